@@ -8,6 +8,8 @@ export async function captureScreenshot(options?: {
   format?: 'png' | 'jpeg' | 'webp'
   quality?: number
   maxLongSide?: number
+  /** CSS selectors of elements to leave out, e.g. overlays */
+  exclude?: string[]
 }): Promise<ScreenshotResult> {
   const selector = options?.selector;
   const fullPage = options?.fullPage ?? false;
@@ -52,6 +54,7 @@ export async function captureScreenshot(options?: {
       cache: 'soft', // Clear session caches between captures
       outerTransforms: false, // Flatten transforms for cleaner screenshot
       outerShadows: false, // Remove shadow bleed
+      exclude: options?.exclude,
     };
 
     const result = await snapdom(targetElement, snapdomOptions);
@@ -0,0 +1,124 @@
+import type { TaskRegion, TaskScreenshot } from 'unplugin-devpilot';
+import { captureScreenshot } from './captureScreenshot';
+
+/** Surroundings kept around the picked elements, in CSS pixels */
+const SCREENSHOT_MARGIN = 80;
+/** Long side of the attached image; enough to recognize the spot without a full page */
+const SCREENSHOT_MAX_LONG_SIDE = 1200;
+/** The body is captured whole and cropped afterwards, so keep enough pixels for the crop */
+const CAPTURE_MAX_LONG_SIDE = 8000;
+const OUTLINE_COLOR = '#ef4444';
+
+/** Rectangle in CSS pixels, relative to the top left of the body */
+export interface ScreenshotBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Part of the capture to keep: the picked boxes plus `margin`, clamped to the captured `size`
+ */
+export function getScreenshotCrop(
+  boxes: ScreenshotBox[],
+  size: { width: number, height: number },
+  margin: number = SCREENSHOT_MARGIN,
+): ScreenshotBox | null {
+  if (boxes.length === 0) {
+    return null;
+  }
+  const left = Math.max(0, Math.min(...boxes.map(b => b.x)) - margin);
+  const top = Math.max(0, Math.min(...boxes.map(b => b.y)) - margin);
+  const right = Math.min(size.width, Math.max(...boxes.map(b => b.x + b.width)) + margin);
+  const bottom = Math.min(size.height, Math.max(...boxes.map(b => b.y + b.height)) + margin);
+  return right > left && bottom > top
+    ? { x: left, y: top, width: right - left, height: bottom - top }
+    : null;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to decode the captured screenshot'));
+    image.src = src;
+  });
+}
+
+/**
+ * Screenshot of the picked elements and their surroundings for a task, each element outlined and a dragged
+ * `region` dashed. The body is captured with snapdom, leaving out the task UI, then cropped around the picks.
+ */
+export async function captureTaskScreenshot(
+  elements: Element[],
+  region?: TaskRegion,
+): Promise<TaskScreenshot | undefined> {
+  try {
+    const body = document.body.getBoundingClientRect();
+    const boxes: ScreenshotBox[] = elements.map((el) => {
+      const rect = el.getBoundingClientRect();
+      return { x: rect.left - body.left, y: rect.top - body.top, width: rect.width, height: rect.height };
+    });
+    const regionBox: ScreenshotBox | undefined = region && {
+      x: region.x - window.scrollX - body.left,
+      y: region.y - window.scrollY - body.top,
+      width: region.width,
+      height: region.height,
+    };
+
+    const capture = await captureScreenshot({
+      format: 'png',
+      maxLongSide: CAPTURE_MAX_LONG_SIDE,
+      exclude: ['devpilot-task-app'],
+    });
+    if (!capture.success || !capture.data || body.width === 0) {
+      return undefined;
+    }
+    const image = await loadImage(`data:${capture.mimeType};base64,${capture.data}`);
+    const scale = image.width / body.width;
+    const crop = getScreenshotCrop(
+      regionBox
+        ? [...boxes, regionBox]
+        : boxes,
+      { width: body.width, height: image.height / scale },
+    );
+    if (!crop) {
+      return undefined;
+    }
+
+    const output = Math.min(1, SCREENSHOT_MAX_LONG_SIDE / Math.max(crop.width, crop.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(crop.width * output);
+    canvas.height = Math.round(crop.height * output);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return undefined;
+    }
+    const source = [crop.x * scale, crop.y * scale, crop.width * scale, crop.height * scale] as const;
+    ctx.drawImage(image, ...source, 0, 0, canvas.width, canvas.height);
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = OUTLINE_COLOR;
+    const outline = (box: ScreenshotBox, dashed: boolean): void => {
+      ctx.setLineDash(dashed
+        ? [8, 6]
+        : []);
+      ctx.strokeRect((box.x - crop.x) * output, (box.y - crop.y) * output, box.width * output, box.height * output);
+    };
+    boxes.forEach(box => outline(box, false));
+    if (regionBox) {
+      outline(regionBox, true);
+    }
+
+    return {
+      mimeType: 'image/jpeg',
+      data: canvas.toDataURL('image/jpeg', 0.85).split(',')[1],
+      width: canvas.width,
+      height: canvas.height,
+    };
+  }
+  catch (error) {
+    console.error('[devpilot-dom-inspector] captureTaskScreenshot error:', error);
+    return undefined;
+  }
+}
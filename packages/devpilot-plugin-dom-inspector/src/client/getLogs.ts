@@ -1,5 +1,6 @@
 import type { ConsoleLogEntry, DomInspectorServerMethods } from '../shared-types';
 import { getDevpilotClient } from 'unplugin-devpilot/client';
+import { DOM_INSPECTOR_NAMESPACE } from '../shared-types';
 
 const pendingLogs: ConsoleLogEntry[] = [];
 
@@ -15,10 +16,10 @@ function scheduleSyncToStorage() {
 
 function flushPendingLogs(): void {
   if (pendingLogs.length === 0) { return; }
-  const client = getDevpilotClient<DomInspectorServerMethods>();
+  const client = getDevpilotClient();
   if (!client) { return; }
   const batch = pendingLogs.splice(0);
-  client.rpcCall('appendLogs', batch).catch(() => {});
+  client.plugin<DomInspectorServerMethods>(DOM_INSPECTOR_NAMESPACE).rpcCall('appendLogs', batch).catch(() => {});
 }
 
 function captureConsoleLogs() {
@@ -50,7 +51,7 @@ function captureConsoleLogs() {
         message = 'Unable to serialize log message';
       }
 
-      const client = getDevpilotClient<DomInspectorServerMethods>();
+      const client = getDevpilotClient();
       const logEntry: ConsoleLogEntry = {
         clientId: client?.getClientId() || 'unknown',
         level,
@@ -71,7 +72,7 @@ function captureConsoleLogs() {
   });
 
   window.addEventListener('error', (event: ErrorEvent) => {
-    const client = getDevpilotClient<DomInspectorServerMethods>();
+    const client = getDevpilotClient();
     pendingLogs.push({
       clientId: client?.getClientId() || 'unknown',
       level: 'error',
@@ -83,7 +84,7 @@ function captureConsoleLogs() {
   });
 
   window.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
-    const client = getDevpilotClient<DomInspectorServerMethods>();
+    const client = getDevpilotClient();
     pendingLogs.push({
       clientId: client?.getClientId() || 'unknown',
       level: 'error',
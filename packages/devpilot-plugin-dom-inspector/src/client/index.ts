@@ -3,6 +3,7 @@ import type { DomInspectorRpc, GetLayoutResult } from '../shared-types';
 import { omit } from 'es-toolkit/compat';
 import { defineRpcHandlers } from 'unplugin-devpilot/client';
 import { captureScreenshot } from './captureScreenshot';
+import { captureTaskScreenshot } from './captureTaskScreenshot';
 import { clickElementById } from './clickElementById';
 import { getCompactSnapshot } from './getCompactSnapshot';
 import { getDOMTree } from './getDOMTree';
@@ -54,11 +55,17 @@ export const rpcHandlers: DomInspectorRpc = defineRpcHandlers<DomInspectorRpc>({
 /**
  * Task payload hook: lazily allocate a `data-devpilot-id` (e* encoding) on the
  * picked element and write it into the payload so the agent can reference it.
+ * When the developer asks for a screenshot, attach one of all picked elements, outlined.
  */
-export const taskPayloadHook: TaskPayloadHook = (payload, { element }) => {
+export const taskPayloadHook: TaskPayloadHook = async (payload, { element, index, elements, screenshot }) => {
   const devpilotId = bindElementId(element);
+  // One image covers every picked element, so it is taken on the first pass only
+  const image = screenshot && index === 0 && !payload.screenshot
+    ? await captureTaskScreenshot(elements, payload.region)
+    : undefined;
   return {
     ...payload,
     element: { ...payload.element, devpilotId },
+    ...(image && { screenshot: image }),
   };
 };
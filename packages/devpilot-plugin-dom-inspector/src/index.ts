@@ -1,7 +1,8 @@
-import type { DevpilotPlugin } from 'unplugin-devpilot';
+import type { DevpilotPlugin, PluginRpcFunctions, RpcErrorCode } from 'unplugin-devpilot';
 import type { ConsoleLogEntry, DomInspectorRpc, DomInspectorServerMethods } from './shared-types';
-import { clientManager, defineMcpToolRegister, resolveClientModule, resolveModule } from 'unplugin-devpilot';
+import { clientManager, defineMcpResourceRegister, defineMcpToolRegister, isRpcError, jsonResourceContents, notifyMcpResourceUpdated, resolveClientModule, resolveModule } from 'unplugin-devpilot';
 import { z } from 'zod';
+import { DOM_INSPECTOR_NAMESPACE } from './shared-types';
 
 // Helper function to generate intelligent error suggestions when client is not found
 function generateClientNotFoundErrorSuggestions(
@@ -13,8 +14,7 @@ function generateClientNotFoundErrorSuggestions(
   suggestions.push(`Client "${targetClientId}" not found or disconnected.`);
 
   // Check if client was recently active
-  const allClients = clientManager.getAllClients(); // Include inactive clients
-  const historicalClient = allClients.find(c => c.clientId === targetClientId);
+  const historicalClient = clientManager.getDetachedClient(targetClientId);
 
   if (historicalClient) {
     suggestions.push(`This client was previously connected to: ${historicalClient.url || 'unknown URL'}`);
@@ -55,16 +55,27 @@ function generateClientNotFoundErrorSuggestions(
   return suggestions;
 }
 
+function getLogsResourceUri(clientId: string): string {
+  return `devpilot://clients/${clientId}/logs`;
+}
+
 // Result type for handleClientRpc - allows callers to work with structured data
 type RpcResult<T>
   = | { success: true, data: T }
-    | { success: false, error: string, details?: string, suggestions?: string[], availableClients?: any[] };
+    | {
+      success: false
+      error: string
+      code?: RpcErrorCode
+      details?: string
+      suggestions?: string[]
+      availableClients?: any[]
+    };
 
 // Helper function to handle client RPC calls with common error handling
 // Returns structured data instead of serialized string, making it easier for callers to process
 async function handleClientRpc<T>(
   clientId: string | undefined,
-  rpcMethod: (client: NonNullable<ReturnType<typeof clientManager.getClient<DomInspectorRpc>>>) => Promise<T>,
+  rpcMethod: (rpc: PluginRpcFunctions<DomInspectorRpc>) => Promise<T>,
 ): Promise<RpcResult<T>> {
   if (!clientId) {
     return {
@@ -74,7 +85,8 @@ async function handleClientRpc<T>(
     };
   }
 
-  const client = clientManager.getClient<DomInspectorRpc>(clientId);
+  // Waits briefly when the tab is reloading, so the same clientId keeps working
+  const client = await clientManager.waitForClient(clientId);
   if (!client) {
     const availableClients = clientManager.getAllClients();
     return {
@@ -86,13 +98,26 @@ async function handleClientRpc<T>(
   }
 
   try {
-    const result = await rpcMethod(client);
+    const result = await rpcMethod(client.plugin<DomInspectorRpc>(DOM_INSPECTOR_NAMESPACE));
     return {
       success: true,
       data: result,
     };
   }
   catch (error) {
+    if (isRpcError(error)) {
+      return {
+        success: false,
+        error: error.code === 'timeout'
+          ? 'RPC call timed out'
+          : 'RPC call failed',
+        code: error.code,
+        details: error.message,
+        suggestions: error.code === 'timeout'
+          ? ['The page may be paused in the debugger or busy. Resume it, or retry later.']
+          : ['The page disconnected during the call. Use list_clients to check whether it reconnected.'],
+      };
+    }
     return {
       success: false,
       error: 'RPC call failed',
@@ -104,7 +129,7 @@ async function handleClientRpc<T>(
 }
 
 // Convert RpcResult to MCP tool response format
-function toMcpResponse<T>(result: RpcResult<T>): { content: Array<{ type: 'text', text: string }> } {
+function toMcpResponse<T>(result: RpcResult<T>): { content: Array<{ type: 'text', text: string }>, isError?: boolean } {
   if (result.success) {
     return {
       content: [{
@@ -115,10 +140,12 @@ function toMcpResponse<T>(result: RpcResult<T>): { content: Array<{ type: 'text'
   }
   else {
     return {
+      isError: true,
       content: [{
         type: 'text' as const,
         text: JSON.stringify({
           error: result.error,
+          code: result.code,
           details: result.details,
           suggestions: result.suggestions,
           availableClients: result.availableClients,
@@ -131,7 +158,7 @@ function toMcpResponse<T>(result: RpcResult<T>): { content: Array<{ type: 'text'
 // Define plugin-specific RPC interface
 
 export default <DevpilotPlugin>{
-  namespace: 'builtin-dom-inspector',
+  namespace: DOM_INSPECTOR_NAMESPACE,
   clientModule: resolveClientModule(import.meta.url, './client/index.mjs'),
   serverSetup(ctx): DomInspectorServerMethods {
     const MAX_STORAGE_SIZE = 1000;
@@ -143,9 +170,35 @@ export default <DevpilotPlugin>{
           ? merged.slice(-MAX_STORAGE_SIZE)
           : merged;
         await ctx.storage.setItem('logs', trimmed);
+        for (const clientId of new Set(items.map(item => item.clientId))) {
+          notifyMcpResourceUpdated(getLogsResourceUri(clientId));
+        }
       },
     };
   },
+  mcpResourceSetup(ctx) {
+    return [
+      defineMcpResourceRegister(
+        'console_logs',
+        getLogsResourceUri('{clientId}'),
+        {
+          title: 'Console Logs',
+          description: 'Captured browser console logs (info and above) of one client',
+          mimeType: 'application/json',
+          list: () => clientManager.getAllClients().map(client => ({
+            uri: getLogsResourceUri(client.clientId),
+            name: `console logs of ${client.clientId}`,
+            description: client.url || undefined,
+            mimeType: 'application/json',
+          })),
+        },
+        async (uri, { clientId }) => {
+          const allLogs = await ctx.storage.getItem<ConsoleLogEntry[]>('logs') || [];
+          return jsonResourceContents(uri, allLogs.filter(log => log.clientId === clientId));
+        },
+      ),
+    ];
+  },
   mcpSetup(ctx) {
     const tools = [
       // query_selector - 精确查询DOM元素
@@ -162,8 +215,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { selector, clientId, maxDepth } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.querySelector(selector, maxDepth);
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.querySelector(selector, maxDepth);
           });
           return toMcpResponse(result);
         },
@@ -183,8 +236,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { clientId, maxDepth, startNodeId } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.getCompactSnapshot({ maxDepth, startNodeId });
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.getCompactSnapshot({ maxDepth, startNodeId });
           });
 
           // Handle error case
@@ -220,8 +273,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { id, clientId } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.clickElementById(id);
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.clickElementById(id);
           });
           return toMcpResponse(result);
         },
@@ -241,8 +294,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { id, text, clientId } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.inputTextById(id, text);
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.inputTextById(id, text);
           });
           return toMcpResponse(result);
         },
@@ -261,8 +314,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { id, clientId } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.getElementInfoById(id);
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.getElementInfoById(id);
           });
           return toMcpResponse(result);
         },
@@ -283,8 +336,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { selector, includeChildren, maxDepth, clientId } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.getElementDetails(selector, { includeChildren, maxDepth });
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.getElementDetails(selector, { includeChildren, maxDepth });
           });
           return toMcpResponse(result);
         },
@@ -383,8 +436,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { clientId, id, maxDepth } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.getLayout({ id, maxDepth });
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.getLayout({ id, maxDepth });
           });
 
           // Handle error case
@@ -415,8 +468,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { id, clientId, behavior } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.scrollToElement(id, behavior);
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.scrollToElement(id, behavior);
           });
           return toMcpResponse(result);
         },
@@ -439,8 +492,8 @@ export default <DevpilotPlugin>{
         },
         async (params) => {
           const { clientId, selector, fullPage, format, quality, maxLongSide } = params;
-          const result = await handleClientRpc(clientId, async (client) => {
-            return await client.rpc.captureScreenshot({ selector, fullPage, format, quality, maxLongSide });
+          const result = await handleClientRpc(clientId, async (rpc) => {
+            return await rpc.captureScreenshot({ selector, fullPage, format, quality, maxLongSide });
           });
 
           // Handle RPC error (client not found, disconnected, etc.)
@@ -1,5 +1,8 @@
 // Shared types between server and client - no DOM dependencies
 
+/** Plugin namespace; also scopes this plugin's RPC methods on both sides */
+export const DOM_INSPECTOR_NAMESPACE = 'builtin-dom-inspector';
+
 export interface AccessibilityNode {
   devpilotId: string
   role: string
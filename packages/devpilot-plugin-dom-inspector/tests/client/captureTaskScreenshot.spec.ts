@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getScreenshotCrop } from '../../src/client/captureTaskScreenshot';
+
+describe('getScreenshotCrop', () => {
+  const page = { width: 1000, height: 3000 };
+
+  it('keeps the picked boxes and their surroundings', () => {
+    const cards = [
+      { x: 200, y: 500, width: 100, height: 50 },
+      { x: 400, y: 520, width: 100, height: 80 },
+    ];
+    expect(getScreenshotCrop(cards, page, 20)).toEqual({ x: 180, y: 480, width: 340, height: 140 });
+  });
+
+  it('stays inside the captured page', () => {
+    expect(getScreenshotCrop([{ x: 10, y: 10, width: 980, height: 40 }], page, 80))
+      .toEqual({ x: 0, y: 0, width: 1000, height: 130 });
+  });
+
+  it('returns null without boxes or outside the page', () => {
+    expect(getScreenshotCrop([], page)).toBeNull();
+    expect(getScreenshotCrop([{ x: 2000, y: 0, width: 10, height: 10 }], page, 0)).toBeNull();
+  });
+});
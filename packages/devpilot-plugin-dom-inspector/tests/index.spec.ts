@@ -1,3 +1,4 @@
+import { RpcError } from 'unplugin-devpilot';
 import { clientManager } from 'unplugin-devpilot/core/client-manager';
 import { createStorage } from 'unstorage';
 import plugin from '../src/index';
@@ -35,7 +36,8 @@ describe('mCP Tools - Node Side', () => {
         }),
       },
     };
-    vi.mocked(clientManager.getClient).mockReturnValue(mockClient as any);
+    const pluginRpc = vi.fn(() => mockClient.rpc);
+    vi.mocked(clientManager.waitForClient).mockResolvedValue({ ...mockClient, plugin: pluginRpc } as any);
 
     const tools = plugin.mcpSetup?.({ wsPort: 3100, storage: createStorage() }) || [];
     const toolCalls = [
@@ -49,6 +51,7 @@ describe('mCP Tools - Node Side', () => {
       const toolDef = tools.find(t => t().name === tool);
       const result = await toolDef!().cb(args as any);
       expect(mock).toHaveBeenCalled();
+      expect(pluginRpc).toHaveBeenCalledWith('builtin-dom-inspector');
 
       if (isJson) {
         expect(JSON.parse((result.content[0] as { text: string }).text).success).toBe(true);
@@ -105,7 +108,8 @@ describe('mCP Tools - Node Side', () => {
         getElementDetails: vi.fn().mockRejectedValue(new Error('RPC failed')),
       },
     };
-    vi.mocked(clientManager.getClient).mockReturnValue(mockClient as any);
+    const pluginRpc = vi.fn(() => mockClient.rpc);
+    vi.mocked(clientManager.waitForClient).mockResolvedValue({ ...mockClient, plugin: pluginRpc } as any);
 
     const tools = plugin.mcpSetup?.({ wsPort: 3100, storage: createStorage() }) || [];
     for (const name of ['query_selector', 'get_visual_hierarchy', 'get_page_snapshot', 'get_element_details']) {
@@ -115,8 +119,33 @@ describe('mCP Tools - Node Side', () => {
     }
   });
 
+  it('all tools should report rpc timeouts with a typed code', async () => {
+    const timeout = new RpcError('timeout', 'Client c_1 did not answer within 30000ms');
+    const mockClient = {
+      rpc: {
+        querySelector: vi.fn().mockRejectedValue(timeout),
+        getLayout: vi.fn().mockRejectedValue(timeout),
+        getCompactSnapshot: vi.fn().mockRejectedValue(timeout),
+        getElementDetails: vi.fn().mockRejectedValue(timeout),
+      },
+    };
+    const pluginRpc = vi.fn(() => mockClient.rpc);
+    vi.mocked(clientManager.waitForClient).mockResolvedValue({ ...mockClient, plugin: pluginRpc } as any);
+
+    const tools = plugin.mcpSetup?.({ wsPort: 3100, storage: createStorage() }) || [];
+    for (const name of ['query_selector', 'get_visual_hierarchy', 'get_page_snapshot', 'get_element_details']) {
+      const toolDef = tools.find(t => t().name === name);
+      const result = await toolDef!().cb({ clientId: 'c_1' } as any);
+      expect(result.isError).toBe(true);
+      expect(JSON.parse((result.content[0] as { text: string }).text)).toMatchObject({
+        error: 'RPC call timed out',
+        code: 'timeout',
+      });
+    }
+  });
+
   it('all tools should handle client not found', async () => {
-    vi.mocked(clientManager.getClient).mockReturnValue(undefined);
+    vi.mocked(clientManager.waitForClient).mockResolvedValue(undefined);
     vi.mocked(clientManager.getAllClients).mockReturnValue([]);
 
     const tools = plugin.mcpSetup?.({ wsPort: 3100, storage: createStorage() }) || [];
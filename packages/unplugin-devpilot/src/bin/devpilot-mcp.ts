@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * Stdio MCP bridge for agents that cannot speak Streamable HTTP.
+ * Finds the running dev server through its lock file and relays every JSON-RPC message to `/mcp`.
+ *
+ * @example
+ * ```json
+ * {
+ *   "mcpServers": {
+ *     "devpilot": { "command": "npx", "args": ["devpilot-mcp"] }
+ *   }
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import process from 'node:process';
+import { parseArgs } from 'node:util';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { findLockFile } from '../core/lock-file';
+
+interface McpEndpoint {
+  url: URL
+  token?: string
+}
+
+async function resolveMcpEndpoint(): Promise<McpEndpoint> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      token: { type: 'string' },
+      cwd: { type: 'string' },
+    },
+  });
+
+  const explicitPort = values.port ?? process.env.DEVPILOT_MCP_PORT;
+  const explicitToken = values.token ?? process.env.DEVPILOT_MCP_TOKEN;
+  const lock = await findLockFile(values.cwd ?? process.cwd());
+  if (explicitPort) {
+    return {
+      url: new URL(`http://localhost:${explicitPort}/mcp`),
+      token: explicitToken ?? lock?.token,
+    };
+  }
+
+  if (!lock) {
+    throw new Error(
+      'No running dev server found. Start the dev server with unplugin-devpilot first, or pass --port <mcpPort>.',
+    );
+  }
+  return {
+    url: new URL(`http://${lock.host ?? 'localhost'}:${lock.mcpPort}/mcp`),
+    token: explicitToken ?? lock.token,
+  };
+}
+
+async function main(): Promise<void> {
+  const { url, token } = await resolveMcpEndpoint();
+  const stdio = new StdioServerTransport();
+  const http = new StreamableHTTPClientTransport(url, {
+    requestInit: token
+      ? { headers: { Authorization: `Bearer ${token}` } }
+      : undefined,
+  });
+
+  stdio.onmessage = (message: JSONRPCMessage) => {
+    http.send(message).catch((error) => {
+      console.error('[devpilot-mcp] Failed to forward message:', error);
+    });
+  };
+  http.onmessage = (message: JSONRPCMessage) => {
+    stdio.send(message).catch((error) => {
+      console.error('[devpilot-mcp] Failed to write message:', error);
+    });
+  };
+  http.onerror = (error) => {
+    console.error('[devpilot-mcp] MCP endpoint error:', error);
+  };
+
+  let closing = false;
+  const close = async (): Promise<void> => {
+    if (closing) { return; }
+    closing = true;
+    await Promise.allSettled([http.close(), stdio.close()]);
+    process.exit(0);
+  };
+  stdio.onclose = close;
+  http.onclose = close;
+
+  await http.start();
+  await stdio.start();
+  console.error(`[devpilot-mcp] Relaying stdio to ${url.href}`);
+}
+
+main().catch((error) => {
+  console.error(`[devpilot-mcp] ${error instanceof Error
+    ? error.message
+    : String(error)}`);
+  process.exit(1);
+});
@@ -0,0 +1,173 @@
+import type { FrameworkInfo, ReportedClientInfo } from '../core/types';
+
+/** Globals that frameworks and their devtools hooks leave on the page */
+type PageGlobals = Record<string, any>;
+type PageDocument = Pick<Document, 'querySelector' | 'querySelectorAll'>;
+
+/** Changes arriving together (e.g. a resize drag, or a navigation and its new title) are reported once */
+const REPORT_DELAY = 200;
+
+function detectReact(win: PageGlobals, doc: PageDocument): FrameworkInfo | undefined {
+  // Only present with React DevTools installed, but the only place React 18+ exposes its version
+  const renderers: Map<unknown, { version?: string }> | undefined = win.__REACT_DEVTOOLS_GLOBAL_HOOK__?.renderers;
+  const renderer = renderers?.size
+    ? renderers.values().next().value
+    : undefined;
+  if (renderer) {
+    return { name: 'react', version: renderer.version };
+  }
+  if (win.React?.version) {
+    return { name: 'react', version: win.React.version };
+  }
+  // React marks the root container it renders into
+  for (const element of Array.from(doc.querySelectorAll('body > *'))) {
+    if (Object.keys(element).some(key => key.startsWith('__reactContainer$') || key === '_reactRootContainer')) {
+      return { name: 'react' };
+    }
+  }
+  return undefined;
+}
+
+function detectVue(win: PageGlobals, doc: PageDocument): FrameworkInfo | undefined {
+  const app = (doc.querySelector('[data-v-app]') as PageGlobals | null)?.__vue_app__;
+  if (app) {
+    return { name: 'vue', version: app.version };
+  }
+  const vue2 = win.__VUE_DEVTOOLS_GLOBAL_HOOK__?.Vue ?? win.Vue;
+  if (vue2?.version) {
+    return { name: 'vue', version: vue2.version };
+  }
+  return win.__VUE__
+    ? { name: 'vue' }
+    : undefined;
+}
+
+/**
+ * Frontend framework running on the page, preferring meta-frameworks over the framework they render with
+ * The app may mount after the client starts, so this is checked on every report
+ */
+export function detectFramework(
+  win: PageGlobals = window,
+  doc: PageDocument = document,
+): FrameworkInfo | undefined {
+  if (win.next) {
+    return { name: 'next', version: win.next.version };
+  }
+  const nuxtApp = (doc.querySelector('#__nuxt') as PageGlobals | null)?.__vue_app__?.$nuxt;
+  if (nuxtApp || win.__NUXT__ || win.$nuxt) {
+    return { name: 'nuxt', version: nuxtApp?.versions?.nuxt };
+  }
+  const angularVersion = doc.querySelector('[ng-version]')?.getAttribute('ng-version');
+  if (angularVersion) {
+    return { name: 'angular', version: angularVersion };
+  }
+  const react = detectReact(win, doc);
+  if (react) {
+    return react;
+  }
+  const vue = detectVue(win, doc);
+  if (vue) {
+    return vue;
+  }
+  // Svelte 4+ records the major versions loaded on the page
+  const svelteVersions: Set<string> | undefined = win.__svelte?.v;
+  if (svelteVersions) {
+    return { name: 'svelte', version: svelteVersions.values().next().value };
+  }
+  if (win.__PREACT_DEVTOOLS__) {
+    return { name: 'preact' };
+  }
+  if (win.Solid$$) {
+    return { name: 'solid' };
+  }
+  return undefined;
+}
+
+/** What the tab reports about itself in `updateClientInfo` */
+export function collectClientInfo(): ReportedClientInfo {
+  return {
+    url: location.href,
+    title: document.title,
+    userAgent: navigator.userAgent,
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    devicePixelRatio: window.devicePixelRatio,
+    colorScheme: window.matchMedia?.('(prefers-color-scheme: dark)').matches
+      ? 'dark'
+      : 'light',
+    language: navigator.language,
+    visibility: document.visibilityState === 'hidden'
+      ? 'hidden'
+      : 'visible',
+    focused: document.hasFocus(),
+    framework: detectFramework(),
+  };
+}
+
+let historyPatched = false;
+
+/** `pushState` and `replaceState` fire no event of their own */
+function patchHistory(): void {
+  if (historyPatched) {
+    return;
+  }
+  historyPatched = true;
+  for (const method of ['pushState', 'replaceState'] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      original.apply(this, args);
+      window.dispatchEvent(new Event('devpilot:navigate'));
+    };
+  }
+}
+
+/**
+ * Call `onChange` after the page may have changed what `collectClientInfo` returns:
+ * resizes, SPA navigations, title, visibility, focus and color scheme changes
+ * @returns Stops watching
+ */
+export function watchClientInfo(onChange: () => void): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const schedule = (): void => {
+    clearTimeout(timer);
+    timer = setTimeout(onChange, REPORT_DELAY);
+  };
+
+  patchHistory();
+  const windowEvents = ['resize', 'popstate', 'hashchange', 'devpilot:navigate', 'focus', 'blur', 'load'];
+  for (const event of windowEvents) {
+    window.addEventListener(event, schedule);
+  }
+  document.addEventListener('visibilitychange', schedule);
+  const colorScheme = window.matchMedia?.('(prefers-color-scheme: dark)');
+  colorScheme?.addEventListener('change', schedule);
+  // SPA routers set the title after navigating, by editing the <title> element or replacing it
+  let title = document.querySelector('title');
+  const titleObserver = new MutationObserver(schedule);
+  const observeTitle = (): void => {
+    titleObserver.disconnect();
+    if (title) {
+      titleObserver.observe(title, { childList: true, subtree: true, characterData: true });
+    }
+  };
+  const headObserver = new MutationObserver(() => {
+    const current = document.querySelector('title');
+    if (current !== title) {
+      title = current;
+      observeTitle();
+      schedule();
+    }
+  });
+  observeTitle();
+  headObserver.observe(document.head, { childList: true });
+
+  return () => {
+    clearTimeout(timer);
+    for (const event of windowEvents) {
+      window.removeEventListener(event, schedule);
+    }
+    document.removeEventListener('visibilitychange', schedule);
+    colorScheme?.removeEventListener('change', schedule);
+    titleObserver.disconnect();
+    headObserver.disconnect();
+  };
+}
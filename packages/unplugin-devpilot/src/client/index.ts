@@ -1,13 +1,89 @@
-import type { ServerFunctions, TaskSubmitPayload } from '../core/types';
-import type { DevpilotClient, DevpilotClientOptions, RpcHandlers, TaskPayloadHook, TaskPayloadHookContext } from './types';
-import { WS_PROXY_PATH } from '../core/constants';
-
-export type { DevpilotClient, DevpilotClientOptions, RpcHandlers, TaskPayloadHook, TaskPayloadHookContext };
+import type { ServerFunctions, TaskElementInfo, TaskSubmitPayload, ToolConfirmationRequest } from '../core/types';
+import type {
+  DevpilotClient,
+  DevpilotClientOptions,
+  DevpilotPluginClient,
+  RpcHandlers,
+  TaskPayloadHook,
+  TaskPayloadHookContext,
+  TaskPayloadRunContext,
+} from './types';
+import {
+  DEFAULT_RPC_TIMEOUT,
+  WS_AUTH_PROTOCOL_PREFIX,
+  WS_CLIENT_PROTOCOL_PREFIX,
+  WS_PROTOCOL,
+  WS_PROXY_PATH,
+  WS_RELOAD_PROTOCOL,
+} from '../core/constants';
+import { getPluginRpcMethod, mergePluginRpcMethods } from '../core/plugin-rpc';
+import { RpcError } from '../core/rpc-error';
+import { collectClientInfo, watchClientInfo } from './client-info';
+
+export type {
+  DevpilotClient,
+  DevpilotClientOptions,
+  DevpilotPluginClient,
+  RpcHandlers,
+  TaskPayloadHook,
+  TaskPayloadHookContext,
+  TaskPayloadRunContext,
+};
+export { isRpcError, RpcError, type RpcErrorCode } from '../core/rpc-error';
 export type { ClientStorage } from './storage';
 export { createClientStorage } from './storage';
 
 const taskPayloadHooks: TaskPayloadHook[] = [];
 
+/** sessionStorage is per tab and survives reloads, so the tab keeps one client id across them. */
+const CLIENT_ID_STORAGE_KEY = 'devpilot:client-id';
+
+function readStoredClientId(): string | null {
+  try {
+    return sessionStorage.getItem(CLIENT_ID_STORAGE_KEY);
+  }
+  catch {
+    return null;
+  }
+}
+
+function storeClientId(id: string): void {
+  try {
+    sessionStorage.setItem(CLIENT_ID_STORAGE_KEY, id);
+  }
+  catch {}
+}
+
+/** Set while a page unloads, so the next page of the tab may take over the id before the old socket closes. */
+const UNLOADED_STORAGE_KEY = 'devpilot:unloaded';
+
+/** Whether the previous page of this tab unloaded; consumed, so a tab duplicated later does not inherit it */
+function takeUnloadedMark(): boolean {
+  try {
+    const marked = sessionStorage.getItem(UNLOADED_STORAGE_KEY) !== null;
+    sessionStorage.removeItem(UNLOADED_STORAGE_KEY);
+    return marked;
+  }
+  catch {
+    return false;
+  }
+}
+
+function watchUnload(): void {
+  addEventListener('pagehide', () => {
+    try {
+      sessionStorage.setItem(UNLOADED_STORAGE_KEY, '1');
+    }
+    catch {}
+  });
+  // Restored from the back/forward cache: this page lives on, so the mark is stale
+  addEventListener('pageshow', (event) => {
+    if (event.persisted) {
+      takeUnloadedMark();
+    }
+  });
+}
+
 /**
  * Register a hook that enriches task payloads before submission.
  * Hooks run in registration order. Returns an unregister function.
@@ -23,17 +99,32 @@ export function registerTaskPayloadHook(hook: TaskPayloadHook): () => void {
 }
 
 /**
- * Run all registered hooks sequentially, returning the enriched payload.
+ * Run all registered hooks sequentially, once per picked element, returning the enriched payload.
+ * Each pass sees that element's info as `payload.element`; the results are collected into `payload.elements`.
  */
 export async function runTaskPayloadHooks(
   payload: TaskSubmitPayload,
-  context: TaskPayloadHookContext,
+  context: TaskPayloadRunContext,
 ): Promise<TaskSubmitPayload> {
+  const elements = 'elements' in context
+    ? context.elements
+    : [context.element];
+  const shared = { elements, screenshot: context.screenshot ?? false, client: context.client };
+  const infos = payload.elements ?? [payload.element];
+  const enriched: TaskElementInfo[] = [];
   let result = payload;
-  for (const hook of taskPayloadHooks) {
-    result = await hook(result, context);
+  for (const [index, element] of elements.entries()) {
+    result = { ...result, element: infos[index] };
+    for (const hook of taskPayloadHooks) {
+      result = await hook(result, { ...shared, element, index });
+    }
+    enriched.push(result.element);
   }
-  return result;
+  return {
+    ...result,
+    element: enriched[0] ?? payload.element,
+    ...(payload.elements && { elements: enriched }),
+  };
 }
 
 function generateId(): string {
@@ -106,20 +197,46 @@ function showWebSocketError() {
   alert(message);
 }
 
+/**
+ * Why this page cannot reach the standalone server directly, if it cannot
+ * `file://` pages send `Origin: null`, which the server rejects; HTTPS pages may only open `ws://` to loopback hosts
+ */
+function getDirectConnectionProblem(): string | null {
+  if (location.protocol === 'file:') {
+    return 'Pages opened from file:// cannot connect. Serve the build over http://localhost instead.';
+  }
+  if (location.protocol === 'https:' && !['localhost', '127.0.0.1', '[::1]'].includes(location.hostname)) {
+    return 'HTTPS pages may only open ws:// connections to localhost (mixed content). '
+      + 'Open the page over http:// or from localhost.';
+  }
+  return null;
+}
+
 export function createDevpilotClient<S extends Record<string, any> = ServerFunctions>(
   options: DevpilotClientOptions,
 ): DevpilotClient<S> {
-  const { rpcHandlers: customHandlers } = options;
+  const { rpcHandlers: customHandlers, token, rpcTimeout = DEFAULT_RPC_TIMEOUT, wsPort } = options;
 
   let ws: WebSocket | null = null;
   let clientId: string | null = null;
-  const pendingCalls = new Map<string, { resolve: (value: unknown) => void, reject: (reason: Error) => void }>();
+  /** Offer `WS_RELOAD_PROTOCOL` on the first connection, when the tab's previous page just unloaded */
+  let reloaded = takeUnloadedMark();
+  const pendingCalls = new Map<string, {
+    resolve: (value: unknown) => void
+    reject: (reason: Error) => void
+    timer: ReturnType<typeof setTimeout>
+  }>();
   const connectedCallbacks = new Set<() => void>();
   const disconnectedCallbacks = new Set<() => void>();
   let hasShownError = false; // Track if we've shown the error popup
   let hasConnectedOnce = false; // Track if we've ever connected successfully
+  let lastReportedInfo = '';
+
+  const pluginHandlers = mergePluginRpcMethods(options.pluginRpcHandlers || {}, (name, namespace) => {
+    console.warn(`[devpilot] Handler "${name}" of plugin "${namespace}" overrides another plugin's handler for the bare name; namespaced calls are unaffected.`);
+  });
 
-  // Create rpcHandlers by merging default implementations with custom handlers and extended handlers
+  // Create rpcHandlers by merging default implementations with plugin, custom and extended handlers
   const rpcHandlers = {
     notifyTaskUpdate(count: number) {
       window.dispatchEvent(new CustomEvent('devpilot:taskUpdate', { detail: { count } }));
@@ -129,21 +246,64 @@ export function createDevpilotClient<S extends Record<string, any> = ServerFunct
       window.dispatchEvent(new CustomEvent('devpilot:taskCompleted', { detail: { taskId } }));
       customHandlers?.notifyTaskCompleted?.(taskId);
     },
+    confirmToolCall(request: ToolConfirmationRequest) {
+      return new Promise<boolean>((resolve) => {
+        // The task UI answers by cancelling the event; without it, fall back to a native prompt
+        const event = new CustomEvent('devpilot:confirmToolCall', {
+          cancelable: true,
+          detail: { request, respond: resolve },
+        });
+        if (window.dispatchEvent(event)) {
+          // eslint-disable-next-line no-alert
+          resolve(confirm(`[devpilot] Allow the agent to call "${request.tool}"?\n\n${JSON.stringify(request.args, null, 2)}`));
+        }
+      });
+    },
+    // Plugin handlers, by `${namespace}:${method}` and by bare name
+    ...pluginHandlers,
     // Merge any additional custom handlers
     ...customHandlers,
     // Merge extended handlers from plugins
     ...(options.extendRpcHandlers || {}),
   } as RpcHandlers;
 
-  function connect(): void {
-    // Always use proxy path for WebSocket connection
-    // This works for both HTTP and HTTPS pages
+  function getWsUrl(): string {
+    // No dev server proxies the path (e.g. Rollup watch builds): talk to the standalone server, which only speaks ws:
+    if (wsPort) {
+      return `ws://${location.hostname}:${wsPort}`;
+    }
+    // Proxy path on the page's own host, so this works for both HTTP and HTTPS pages
     const protocol = location.protocol === 'https:'
       ? 'wss:'
       : 'ws:';
-    const wsUrl = `${protocol}//${location.host}${WS_PROXY_PATH}`;
+    return `${protocol}//${location.host}${WS_PROXY_PATH}`;
+  }
+
+  function connect(): void {
+    const problem = wsPort
+      ? getDirectConnectionProblem()
+      : null;
+    if (problem) {
+      console.warn(`[devpilot] ${problem}`);
+      return;
+    }
+    const wsUrl = getWsUrl();
 
-    ws = new WebSocket(wsUrl);
+    // Browsers cannot send headers on the handshake, so the token and the previous client id ride along as subprotocols
+    const protocols = [WS_PROTOCOL];
+    if (token) {
+      protocols.push(`${WS_AUTH_PROTOCOL_PREFIX}${token}`);
+    }
+    const storedClientId = readStoredClientId();
+    if (storedClientId) {
+      protocols.push(`${WS_CLIENT_PROTOCOL_PREFIX}${storedClientId}`);
+      if (reloaded) {
+        protocols.push(WS_RELOAD_PROTOCOL);
+      }
+    }
+    // Later reconnects of this page are not reloads
+    reloaded = false;
+    ws = new WebSocket(wsUrl, protocols);
 
     ws.onopen = () => {
       console.log('[devpilot] Connected to server');
@@ -157,12 +317,10 @@ export function createDevpilotClient<S extends Record<string, any> = ServerFunct
 
         if (data.type === 'connected') {
           clientId = data.clientId;
+          storeClientId(data.clientId);
           console.log('[devpilot] Client ID:', clientId);
-          rpcCall('updateClientInfo', {
-            url: location.href,
-            title: document.title,
-            userAgent: navigator.userAgent,
-          });
+          lastReportedInfo = '';
+          reportClientInfo();
           connectedCallbacks.forEach(cb => cb());
           return;
         }
@@ -186,8 +344,9 @@ export function createDevpilotClient<S extends Record<string, any> = ServerFunct
         }
 
         if (data.t === 's' && data.i && pendingCalls.has(data.i)) {
-          const { resolve, reject } = pendingCalls.get(data.i)!;
+          const { resolve, reject, timer } = pendingCalls.get(data.i)!;
           pendingCalls.delete(data.i);
+          clearTimeout(timer);
           if (data.e) { reject(new Error(String(data.e))); }
           else { resolve(data.r); }
         }
@@ -200,6 +359,12 @@ export function createDevpilotClient<S extends Record<string, any> = ServerFunct
     ws.onclose = () => {
       console.log('[devpilot] Disconnected, reconnecting...');
       clientId = null;
+      // Answers to in-flight calls can no longer arrive on this socket
+      for (const { reject, timer } of pendingCalls.values()) {
+        clearTimeout(timer);
+        reject(new RpcError('disconnected', 'Disconnected from the devpilot server'));
+      }
+      pendingCalls.clear();
       disconnectedCallbacks.forEach(cb => cb());
       setTimeout(connect, 2000);
     };
@@ -216,6 +381,22 @@ export function createDevpilotClient<S extends Record<string, any> = ServerFunct
     };
   }
 
+  /** Only changes are sent, so focus or resize events that change nothing cost no round trip */
+  function reportClientInfo(): void {
+    if (clientId === null) {
+      return;
+    }
+    const info = collectClientInfo();
+    const serialized = JSON.stringify(info);
+    if (serialized === lastReportedInfo) {
+      return;
+    }
+    lastReportedInfo = serialized;
+    rpcCall('updateClientInfo', info).catch(() => {
+      lastReportedInfo = '';
+    });
+  }
+
   function rpcCall<T = unknown>(method: string, ...args: unknown[]): Promise<T> {
     return new Promise((resolve, reject) => {
       if (!ws || ws.readyState !== WebSocket.OPEN) {
@@ -223,16 +404,25 @@ export function createDevpilotClient<S extends Record<string, any> = ServerFunct
         return;
       }
       const id = generateId();
-      pendingCalls.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      const timer = setTimeout(() => {
+        pendingCalls.delete(id);
+        reject(new RpcError('timeout', `Server did not answer "${method}" within ${rpcTimeout}ms`, method));
+      }, rpcTimeout);
+      pendingCalls.set(id, { resolve: resolve as (value: unknown) => void, reject, timer });
       ws.send(JSON.stringify({ t: 'q', m: method, a: args, i: id }));
     });
   }
 
+  watchUnload();
+  watchClientInfo(reportClientInfo);
   connect();
 
   return {
     getClientId: () => clientId,
     rpcCall,
+    plugin: (namespace: string) => ({
+      rpcCall: (method: string, ...args: unknown[]) => rpcCall(getPluginRpcMethod(namespace, method), ...args),
+    }) as DevpilotPluginClient<any>,
     isConnected: () => ws !== null && ws.readyState === WebSocket.OPEN,
     onConnected: (callback) => {
       connectedCallbacks.add(callback);
@@ -1,8 +1,21 @@
 import type { PropertyValues } from 'lit';
-import type { PendingTask, TaskHistory, TaskSubmitPayload } from '../../core/types';
+import type {
+  AuditLogEntry,
+  PendingTask,
+  TaskComment,
+  TaskDashboard,
+  TaskElementInfo,
+  TaskHistory,
+  TaskPriority,
+  TaskRegion,
+  TaskSubmitPayload,
+  ToolConfirmationRequest,
+} from '../../core/types';
 import type { DevpilotClient } from '../types';
 import type { DockPosition, DockSize, ViewportSize } from './dock-position.js';
+import type { ViewportRect } from './task-element-info.js';
 import { css, html, LitElement } from 'lit';
+import { TASK_PRIORITIES } from '../../core/constants';
 import { runTaskPayloadHooks } from '../index.js';
 import {
   clampDockPoint,
@@ -13,10 +26,30 @@ import {
 } from './dock-position.js';
 import {
   collectElementContext,
+  findElementsInRegion,
+  getBoundingRect,
+  getRectFromPoints,
+  isUnderDevpilotTaskUi,
   shouldIgnorePickTarget,
+  toTaskRegion,
 } from './task-element-info.js';
 
-interface Rect { top: number, left: number, width: number, height: number }
+type TasksPanelTab = 'tasks' | 'audit';
+
+/** Pointer travel (px) after which a press in pick mode draws a region instead of clicking */
+const REGION_DRAG_THRESHOLD = 4;
+
+interface RegionDragState {
+  x: number
+  y: number
+  shiftKey: boolean
+}
+
+interface ToolConfirmation {
+  request: ToolConfirmationRequest
+  respond: (approved: boolean) => void
+  timer: ReturnType<typeof setTimeout>
+}
 
 interface DockDragState {
   pointerId: number
@@ -28,6 +61,14 @@ interface DockDragState {
   dock: HTMLElement
 }
 
+function isOnTaskUi(e: Event): boolean {
+  return e.target instanceof Element && isUnderDevpilotTaskUi(e.target);
+}
+
+function getBoxStyle(rect: ViewportRect): string {
+  return `top:${rect.top}px;left:${rect.left}px;width:${rect.width}px;height:${rect.height}px`;
+}
+
 function formatRelativeAge(ts: number): string {
   const sec = Math.floor((Date.now() - ts) / 1000);
   if (sec < 5) {
@@ -47,6 +88,32 @@ function formatRelativeAge(ts: number): string {
   return new Date(ts).toLocaleString();
 }
 
+type TaskChangeResult = { ok: true } | { ok: false, error: string };
+
+const FINISHED_STATUS_LABELS: Partial<Record<TaskHistory['status'], string>> = {
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/** Picked element, or all picked elements and their region, for the task rows */
+function formatTaskTarget(t: Pick<PendingTask, 'element' | 'elements' | 'region'>): string {
+  return t.elements || t.region
+    ? JSON.stringify({ elements: t.elements ?? [t.element], region: t.region }, null, 2)
+    : JSON.stringify(t.element, null, 2);
+}
+
+/** Labels typed into the pick dialog, separated by commas */
+function parseLabels(text: string): string[] {
+  return [...new Set(text.split(',').map(l => l.trim()).filter(Boolean))];
+}
+
+/** Questions of the agent the developer has not answered yet */
+function getOpenQuestions(task: TaskHistory): TaskComment[] {
+  const comments = task.comments ?? [];
+  return comments.filter(c => c.author === 'agent' && !comments.some(r => r.inReplyTo === c.id));
+}
+
 export class DevpilotTaskApp extends LitElement {
   static properties = {
     inspectMode: { type: Boolean },
@@ -55,15 +122,30 @@ export class DevpilotTaskApp extends LitElement {
     tasksPanelOpen: { type: Boolean },
     userNote: { type: String },
     submitting: { type: Boolean },
+    _priority: { state: true },
+    _labelsText: { state: true },
+    _attachScreenshot: { state: true },
     _menuElement: { state: true },
+    _menuElements: { state: true },
     _highlight: { state: true },
+    _selection: { state: true },
+    _regionBox: { state: true },
     _taskList: { state: true },
     _inProgressList: { state: true },
+    _finishedList: { state: true },
+    _changingTask: { state: true },
+    _reopening: { state: true },
+    _reopenReason: { state: true },
     _tasksLoading: { state: true },
     _approvalToast: { state: true },
     _dockPosition: { state: true },
     _dockSize: { state: true },
     _draggingDock: { state: true },
+    _confirmQueue: { state: true },
+    _panelTab: { state: true },
+    _auditLog: { state: true },
+    _replyDrafts: { state: true },
+    _sendingReply: { state: true },
   };
 
   declare inspectMode: boolean;
@@ -72,20 +154,44 @@ export class DevpilotTaskApp extends LitElement {
   declare tasksPanelOpen: boolean;
   declare userNote: string;
   declare submitting: boolean;
+  declare _priority: TaskPriority;
+  /** Labels of the new task, comma separated */
+  declare _labelsText: string;
+  declare _attachScreenshot: boolean;
   declare _menuElement: PendingTask['element'] | null;
-  declare _highlight: Rect | null;
+  /** Every element of the task being created; `_menuElement` is the first */
+  declare _menuElements: TaskElementInfo[];
+  declare _highlight: ViewportRect | null;
+  /** Elements shift-clicked in pick mode so far */
+  declare _selection: Element[];
+  /** Region being dragged out in pick mode */
+  declare _regionBox: ViewportRect | null;
   declare _taskList: PendingTask[];
   declare _inProgressList: TaskHistory[];
+  declare _finishedList: TaskHistory[];
+  /** Task with a reopen or cancel request on its way */
+  declare _changingTask: string | null;
+  /** Task whose reopen form is shown */
+  declare _reopening: string | null;
+  declare _reopenReason: string;
   declare _tasksLoading: boolean;
   declare _approvalToast: string;
   declare _dockPosition: DockPosition | null;
   declare _dockSize: DockSize;
   declare _draggingDock: boolean;
+  declare _confirmQueue: ToolConfirmation[];
+  declare _panelTab: TasksPanelTab;
+  declare _auditLog: AuditLogEntry[];
+  /** Reply box contents by question id */
+  declare _replyDrafts: Record<string, string>;
+  declare _sendingReply: string | null;
 
   devpilotClient: DevpilotClient | null = null;
 
-  /** Raw DOM element kept across pick → submit so hooks can access it. */
-  private _rawPickedElement: Element | null = null;
+  /** Raw DOM elements kept across pick → submit so hooks can access them. */
+  private _rawPickedElements: Element[] = [];
+  private _menuRegion: TaskRegion | null = null;
+  private _regionDrag: RegionDragState | null = null;
   private readonly sessionId: string;
   private readonly dockStorageKey: string = 'devpilot:dock-position';
   private _pollTimer: ReturnType<typeof setInterval> | null = null;
@@ -96,6 +202,21 @@ export class DevpilotTaskApp extends LitElement {
     void this.loadDashboard();
   };
 
+  private _onConfirmToolCall = (e: Event) => {
+    const { request, respond } = (e as CustomEvent<{
+      request: ToolConfirmationRequest
+      respond: (approved: boolean) => void
+    }>).detail;
+    e.preventDefault();
+    const entry: ToolConfirmation = {
+      request,
+      respond,
+      // The server refuses the call once it expires; drop the prompt at the same time
+      timer: setTimeout(() => this.answerToolConfirmation(entry, false), Math.max(0, request.expiresAt - Date.now())),
+    };
+    this._confirmQueue = [...this._confirmQueue, entry];
+  };
+
   private _onKeyDown = (e: KeyboardEvent) => {
     if (e.key === 'Escape') {
       if (this.menuOpen) {
@@ -110,12 +231,15 @@ export class DevpilotTaskApp extends LitElement {
       }
       if (this.inspectMode) {
         e.preventDefault();
-        this.inspectMode = false;
-        this._highlight = null;
-        this._detachInspectListeners();
+        this.stopInspect();
       }
       return;
     }
+    if (e.key === 'Enter' && this.inspectMode && this._selection.length > 0) {
+      e.preventDefault();
+      this.openMenu(this._selection, null);
+      return;
+    }
     if (!e.altKey || !e.shiftKey) {
       return;
     }
@@ -138,6 +262,12 @@ export class DevpilotTaskApp extends LitElement {
     if (!this.inspectMode) {
       return;
     }
+    const drag = this._regionDrag;
+    if (drag && (this._regionBox || Math.hypot(e.clientX - drag.x, e.clientY - drag.y) > REGION_DRAG_THRESHOLD)) {
+      this._highlight = null;
+      this._regionBox = getRectFromPoints(drag.x, drag.y, e.clientX, e.clientY);
+      return;
+    }
     const el = document.elementFromPoint(e.clientX, e.clientY);
     if (!el || shouldIgnorePickTarget(el)) {
       this._highlight = null;
@@ -153,24 +283,57 @@ export class DevpilotTaskApp extends LitElement {
   };
 
   private _onPointerDown = (e: PointerEvent) => {
-    if (!this.inspectMode) {
+    // Regions may start on the page background, so only presses on the task UI are left alone
+    if (!this.inspectMode || isOnTaskUi(e)) {
       return;
     }
     e.preventDefault();
     e.stopPropagation();
+    this._regionDrag = { x: e.clientX, y: e.clientY, shiftKey: e.shiftKey };
+  };
+
+  /** Ends a press in pick mode: a drag picks a region, a shift-click toggles an element, a click finishes */
+  private _onPointerUp = (e: PointerEvent) => {
+    const drag = this._regionDrag;
+    if (!this.inspectMode || !drag) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    this._regionDrag = null;
+    const box = this._regionBox;
+    if (box) {
+      this._regionBox = null;
+      const inside = findElementsInRegion(box);
+      const center = document.elementFromPoint(box.left + box.width / 2, box.top + box.height / 2);
+      const picked = inside.length > 0 || !center || shouldIgnorePickTarget(center)
+        ? inside
+        : [center];
+      const elements = [...new Set([...this._selection, ...picked])];
+      if (elements.length > 0) {
+        this.openMenu(elements, box);
+      }
+      return;
+    }
     const el = document.elementFromPoint(e.clientX, e.clientY);
     if (!el || shouldIgnorePickTarget(el)) {
       return;
     }
-    const elementPayload = collectElementContext(el, this.sessionId);
-    this._rawPickedElement = el;
-    this.inspectMode = false;
-    this._highlight = null;
-    this._detachInspectListeners();
-    this._menuElement = elementPayload;
-    this.tasksPanelOpen = false;
-    this.menuOpen = true;
-    this.userNote = '';
+    if (drag.shiftKey) {
+      this._selection = this._selection.includes(el)
+        ? this._selection.filter(s => s !== el)
+        : [...this._selection, el];
+      return;
+    }
+    this.openMenu([...new Set([...this._selection, el])], null);
+  };
+
+  /** Keeps clicks of pick mode (e.g. shift-clicks on links) from reaching the page */
+  private _onInspectClick = (e: MouseEvent) => {
+    if (this.inspectMode && !isOnTaskUi(e)) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
   };
 
   private _onWindowResize = () => {
@@ -250,26 +413,45 @@ export class DevpilotTaskApp extends LitElement {
     this.tasksPanelOpen = false;
     this.userNote = '';
     this.submitting = false;
+    this._priority = 'normal';
+    this._labelsText = '';
+    this._attachScreenshot = false;
     this._menuElement = null;
+    this._menuElements = [];
     this._highlight = null;
+    this._selection = [];
+    this._regionBox = null;
     this._taskList = [];
     this._inProgressList = [];
+    this._finishedList = [];
+    this._changingTask = null;
+    this._reopening = null;
+    this._reopenReason = '';
     this._tasksLoading = false;
     this._approvalToast = '';
     this._dockPosition = null;
     this._dockSize = { width: 180, height: 42 };
     this._draggingDock = false;
+    this._confirmQueue = [];
+    this._panelTab = 'tasks';
+    this._auditLog = [];
+    this._replyDrafts = {};
+    this._sendingReply = null;
   }
 
   connectedCallback(): void {
     super.connectedCallback();
     this.setAttribute('data-devpilot-task-ui', '');
     window.addEventListener('devpilot:taskUpdate', this._onTaskUpdate);
+    window.addEventListener('devpilot:confirmToolCall', this._onConfirmToolCall);
     window.addEventListener('keydown', this._onKeyDown, true);
     window.addEventListener('resize', this._onWindowResize);
     void this.loadDashboard({ showLoading: true });
     this._pollTimer = setInterval(() => {
       void this.loadDashboard();
+      if (this.tasksPanelOpen && this._panelTab === 'audit') {
+        void this.loadAuditLog();
+      }
     }, 1000);
   }
 
@@ -281,6 +463,7 @@ export class DevpilotTaskApp extends LitElement {
     }
     document.documentElement.style.cursor = '';
     window.removeEventListener('devpilot:taskUpdate', this._onTaskUpdate);
+    window.removeEventListener('devpilot:confirmToolCall', this._onConfirmToolCall);
     window.removeEventListener('keydown', this._onKeyDown, true);
     window.removeEventListener('resize', this._onWindowResize);
     if (this._resizeRaf !== null) {
@@ -289,6 +472,9 @@ export class DevpilotTaskApp extends LitElement {
     }
     this.detachDockDragListeners();
     this._detachInspectListeners();
+    for (const entry of this._confirmQueue) {
+      this.answerToolConfirmation(entry, false);
+    }
   }
 
   protected firstUpdated(): void {
@@ -407,32 +593,70 @@ export class DevpilotTaskApp extends LitElement {
   private _attachInspectListeners(): void {
     window.addEventListener('pointermove', this._onPointerMove, true);
     window.addEventListener('pointerdown', this._onPointerDown, true);
+    window.addEventListener('pointerup', this._onPointerUp, true);
+    window.addEventListener('click', this._onInspectClick, true);
   }
 
   private _detachInspectListeners(): void {
     window.removeEventListener('pointermove', this._onPointerMove, true);
     window.removeEventListener('pointerdown', this._onPointerDown, true);
+    window.removeEventListener('pointerup', this._onPointerUp, true);
+    window.removeEventListener('click', this._onInspectClick, true);
+  }
+
+  /** Leave pick mode, dropping an unfinished multi-element or region pick */
+  private stopInspect(): void {
+    this.inspectMode = false;
+    this._highlight = null;
+    this._selection = [];
+    this._regionBox = null;
+    this._regionDrag = null;
+    this._detachInspectListeners();
+  }
+
+  /**
+   * Open the new task dialog for the picked elements
+   * @param box - Dragged region; tasks about several elements otherwise get the bounds of all of them
+   */
+  private openMenu(elements: Element[], box: ViewportRect | null): void {
+    const bounds = box ?? (elements.length > 1
+      ? getBoundingRect(elements.map(el => el.getBoundingClientRect()))
+      : null);
+    this._rawPickedElements = elements;
+    this._menuElements = elements.map(el => collectElementContext(el, this.sessionId));
+    this._menuElement = this._menuElements[0];
+    this._menuRegion = bounds
+      ? toTaskRegion(bounds, window.scrollX, window.scrollY)
+      : null;
+    this.stopInspect();
+    this.tasksPanelOpen = false;
+    this.menuOpen = true;
+    this.userNote = '';
   }
 
   private toggleInspect(): void {
     if (this.menuOpen) {
       return;
     }
-    this.inspectMode = !this.inspectMode;
     if (this.inspectMode) {
-      this._attachInspectListeners();
+      this.stopInspect();
     }
     else {
-      this._highlight = null;
-      this._detachInspectListeners();
+      this.inspectMode = true;
+      this._attachInspectListeners();
     }
   }
 
   private closeMenu(): void {
     this.menuOpen = false;
     this._menuElement = null;
-    this._rawPickedElement = null;
+    this._menuElements = [];
+    this._menuRegion = null;
+    this._rawPickedElements = [];
     this.userNote = '';
+    this._priority = 'normal';
+    this._labelsText = '';
+    this._attachScreenshot = false;
   }
 
   private toggleTasksPanel(): void {
@@ -441,9 +665,7 @@ export class DevpilotTaskApp extends LitElement {
     }
     this.tasksPanelOpen = !this.tasksPanelOpen;
     if (this.tasksPanelOpen && this.inspectMode) {
-      this.inspectMode = false;
-      this._highlight = null;
-      this._detachInspectListeners();
+      this.stopInspect();
     }
   }
 
@@ -451,6 +673,21 @@ export class DevpilotTaskApp extends LitElement {
     this.tasksPanelOpen = false;
   }
 
+  private selectPanelTab(tab: TasksPanelTab): void {
+    this._panelTab = tab;
+    if (tab === 'audit') {
+      void this.loadAuditLog();
+    }
+  }
+
+  private refreshPanel(): void {
+    if (this._panelTab === 'audit') {
+      void this.loadAuditLog();
+      return;
+    }
+    void this.loadDashboard({ showLoading: true });
+  }
+
   private onDockPointerDown(e: PointerEvent): void {
     if (e.button !== 0 && e.pointerType === 'mouse') {
       return;
@@ -555,6 +792,7 @@ export class DevpilotTaskApp extends LitElement {
     if (!client?.isConnected()) {
       this._taskList = [];
       this._inProgressList = [];
+      this._finishedList = [];
       this.pendingCount = 0;
       return;
     }
@@ -563,22 +801,23 @@ export class DevpilotTaskApp extends LitElement {
       this.requestUpdate();
     }
     try {
-      const dash = await client.rpcCall('getTaskDashboard') as {
-        pending: PendingTask[]
-        inProgress: TaskHistory[]
-      };
+      const dash = await client.rpcCall('getTaskDashboard') as TaskDashboard;
       this._taskList = Array.isArray(dash?.pending)
         ? dash.pending
         : [];
       this._inProgressList = Array.isArray(dash?.inProgress)
         ? dash.inProgress
         : [];
+      this._finishedList = Array.isArray(dash?.finished)
+        ? dash.finished
+        : [];
       this.pendingCount = this._taskList.length;
     }
     catch (err) {
       console.error('[devpilot] getTaskDashboard failed:', err);
       this._taskList = [];
       this._inProgressList = [];
+      this._finishedList = [];
     }
     finally {
       if (options?.showLoading) {
@@ -588,6 +827,24 @@ export class DevpilotTaskApp extends LitElement {
     }
   }
 
+  private async loadAuditLog(): Promise<void> {
+    const client = this.devpilotClient;
+    if (!client?.isConnected()) {
+      this._auditLog = [];
+      return;
+    }
+    try {
+      const entries = await client.rpcCall('getAuditLog', { limit: 100 }) as AuditLogEntry[];
+      this._auditLog = Array.isArray(entries)
+        ? entries
+        : [];
+    }
+    catch (err) {
+      console.error('[devpilot] getAuditLog failed:', err);
+      this._auditLog = [];
+    }
+  }
+
   private async copyApprovalToken(taskId: string): Promise<void> {
     const client = this.devpilotClient;
     if (!client?.isConnected()) {
@@ -602,16 +859,20 @@ export class DevpilotTaskApp extends LitElement {
       }
       try {
         await navigator.clipboard.writeText(r.token);
-        this._approvalToast = 'Token copied. Paste it to the agent for complete_task after you confirm.';
+        this.showToast('Token copied. Paste it to the agent for complete_task after you confirm.');
       }
       catch {
-        this._approvalToast = r.token;
+        this.showToast(r.token);
       }
     }
     catch (err) {
       console.error('[devpilot] prepareTaskCompletionApproval failed:', err);
-      this._approvalToast = 'Failed to get token';
+      this.showToast('Failed to get token');
     }
+  }
+
+  private showToast(message: string): void {
+    this._approvalToast = message;
     this.requestUpdate();
     window.setTimeout(() => {
       this._approvalToast = '';
@@ -619,6 +880,65 @@ export class DevpilotTaskApp extends LitElement {
     }, 5000);
   }
 
+  private async changeTask(taskId: string, call: (client: DevpilotClient) => Promise<unknown>): Promise<void> {
+    const client = this.devpilotClient;
+    if (!client?.isConnected()) {
+      return;
+    }
+    this._changingTask = taskId;
+    try {
+      const r = await call(client) as TaskChangeResult;
+      if (!r.ok) {
+        this.showToast(r.error);
+        return;
+      }
+      this._reopening = null;
+      await this.loadDashboard();
+    }
+    catch (err) {
+      console.error('[devpilot] Task update failed:', err);
+      this.showToast('Failed to update the task');
+    }
+    finally {
+      this._changingTask = null;
+    }
+  }
+
+  private cancelTask(taskId: string): Promise<void> {
+    return this.changeTask(taskId, client => client.rpcCall('cancelTask', taskId));
+  }
+
+  private reopenTask(taskId: string): Promise<void> {
+    const reason = this._reopenReason.trim() || undefined;
+    return this.changeTask(taskId, client => client.rpcCall('reopenTask', taskId, reason));
+  }
+
+  private async sendReply(taskId: string, questionId: string): Promise<void> {
+    const client = this.devpilotClient;
+    const answer = this._replyDrafts[questionId]?.trim();
+    if (!client?.isConnected() || !answer) {
+      return;
+    }
+    this._sendingReply = questionId;
+    try {
+      const r = await client.rpcCall('answerTaskQuestion', taskId, questionId, answer);
+      if (!r.ok) {
+        this.showToast(r.error);
+        return;
+      }
+      const { [questionId]: _, ...drafts } = this._replyDrafts;
+      this._replyDrafts = drafts;
+      await this.loadDashboard();
+    }
+    catch (err) {
+      console.error('[devpilot] answerTaskQuestion failed:', err);
+      this.showToast('Failed to send the answer');
+    }
+    finally {
+      this._sendingReply = null;
+    }
+  }
+
   private taskOriginLabel(sourceClient: string): string {
     const mine = this.devpilotClient?.getClientId() ?? null;
     return mine && sourceClient === mine
@@ -626,6 +946,21 @@ export class DevpilotTaskApp extends LitElement {
       : sourceClient;
   }
 
+  private renderTriage(t: Pick<PendingTask, 'priority' | 'labels'>) {
+    const priority = t.priority ?? 'normal';
+    if (priority === 'normal' && !t.labels?.length) {
+      return null;
+    }
+    return html`
+      <div class="task-triage">
+        ${priority === 'normal'
+          ? null
+          : html`<span class="task-priority ${priority}">${priority}</span>`}
+        ${(t.labels ?? []).map(l => html`<span class="task-label">${l}</span>`)}
+      </div>
+    `;
+  }
+
   private renderTaskRow(t: PendingTask) {
     const note = t.userNote?.trim();
     return html`
@@ -635,12 +970,136 @@ export class DevpilotTaskApp extends LitElement {
           <span class="task-origin">${this.taskOriginLabel(t.sourceClient)}</span>
         </div>
         <p class="task-id-line"><code class="task-id">${t.id}</code></p>
+        ${this.renderTriage(t)}
+        ${t.reopenReason
+          ? html`<p class="task-msg task-reason">Reopened: ${t.reopenReason}</p>`
+          : null}
         <p class="task-msg">${note || html`<em class="muted">(no message)</em>`}</p>
-        <pre class="task-json">${JSON.stringify(t.element, null, 2)}</pre>
+        ${t.screenshot
+          ? html`<p class="task-msg muted">Screenshot attached (${t.screenshot.width}×${t.screenshot.height})</p>`
+          : null}
+        <pre class="task-json">${formatTaskTarget(t)}</pre>
+        ${this.renderCancelButton(t.id)}
       </li>
     `;
   }
 
+  private renderCancelButton(taskId: string) {
+    return html`
+      <button
+        type="button"
+        class="link-btn"
+        ?disabled=${this._changingTask === taskId}
+        @click=${() => this.cancelTask(taskId)}
+      >Cancel task</button>
+    `;
+  }
+
+  private renderReopenForm(t: TaskHistory) {
+    if (this._reopening !== t.id) {
+      return html`
+        <button
+          type="button"
+          class="approval-btn"
+          @click=${() => {
+            this._reopening = t.id;
+            this._reopenReason = '';
+          }}
+        >Reject and reopen</button>
+      `;
+    }
+    const busy = this._changingTask === t.id;
+    return html`
+      <div class="thread-reply">
+        <textarea
+          class="note-input"
+          rows="2"
+          placeholder="What is still wrong? (optional)"
+          .value=${this._reopenReason}
+          ?disabled=${busy}
+          @input=${(e: Event) => {
+            this._reopenReason = (e.target as HTMLTextAreaElement).value;
+          }}
+        ></textarea>
+        <div class="row-actions">
+          <button type="button" class="btn secondary" ?disabled=${busy} @click=${() => {
+            this._reopening = null;
+          }}>Back</button>
+          <button type="button" class="btn primary" ?disabled=${busy} @click=${() => this.reopenTask(t.id)}>Reopen</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderFinishedRow(t: TaskHistory) {
+    const note = t.userNote?.trim();
+    const outcome = t.result?.summary ?? t.result?.error;
+    return html`
+      <li class="task-row finished">
+        <div class="task-row-head">
+          <span class="task-badge-status ${t.status}">${FINISHED_STATUS_LABELS[t.status]}</span>
+          <span class="task-age">${formatRelativeAge(t.completedAt ?? t.timestamp)}</span>
+        </div>
+        <p class="task-id-line"><code class="task-id">${t.id}</code></p>
+        ${this.renderTriage(t)}
+        <p class="task-msg">${note || html`<em class="muted">(no message)</em>`}</p>
+        ${typeof outcome === 'string' && outcome
+          ? html`<p class="task-msg task-reason">${outcome}</p>`
+          : null}
+        ${t.status === 'cancelled'
+          ? null
+          : this.renderReopenForm(t)}
+      </li>
+    `;
+  }
+
+  private renderReplyBox(taskId: string, question: TaskComment) {
+    const sending = this._sendingReply === question.id;
+    return html`
+      <div class="thread-reply">
+        <textarea
+          class="note-input"
+          rows="2"
+          placeholder="Answer the agent…"
+          .value=${this._replyDrafts[question.id] ?? ''}
+          ?disabled=${sending}
+          @input=${(e: Event) => {
+            this._replyDrafts = { ...this._replyDrafts, [question.id]: (e.target as HTMLTextAreaElement).value };
+          }}
+        ></textarea>
+        <button
+          type="button"
+          class="btn primary"
+          ?disabled=${sending || !this._replyDrafts[question.id]?.trim()}
+          @click=${() => this.sendReply(taskId, question.id)}
+        >Reply</button>
+      </div>
+    `;
+  }
+
+  private renderThread(t: TaskHistory) {
+    const comments = t.comments ?? [];
+    if (comments.length === 0) {
+      return null;
+    }
+    const open = new Set(getOpenQuestions(t));
+    return html`
+      <ul class="task-thread">
+        ${comments.map(c => html`
+          <li class="thread-entry ${c.author}">
+            <span class="thread-author">${c.author === 'agent'
+              ? 'Agent asks'
+              : 'You answered'} · ${formatRelativeAge(c.timestamp)}</span>
+            <p class="thread-text">${c.text}</p>
+            ${open.has(c)
+              ? this.renderReplyBox(t.id, c)
+              : null}
+          </li>
+        `)}
+      </ul>
+    `;
+  }
+
   private renderInProgressRow(t: TaskHistory) {
     const note = t.userNote?.trim();
     return html`
@@ -650,27 +1109,95 @@ export class DevpilotTaskApp extends LitElement {
           <span class="task-age">${formatRelativeAge(t.timestamp)}</span>
         </div>
         <p class="task-id-line"><code class="task-id">${t.id}</code></p>
+        ${this.renderTriage(t)}
         <p class="task-msg">${note || html`<em class="muted">(no message)</em>`}</p>
-        <pre class="task-json">${JSON.stringify(t.element, null, 2)}</pre>
+        ${t.screenshot
+          ? html`<p class="task-msg muted">Screenshot attached (${t.screenshot.width}×${t.screenshot.height})</p>`
+          : null}
+        <pre class="task-json">${formatTaskTarget(t)}</pre>
+        ${this.renderThread(t)}
         <button type="button" class="approval-btn" @click=${() => this.copyApprovalToken(t.id)}>
           Get approval token
         </button>
+        ${this.renderCancelButton(t.id)}
+      </li>
+    `;
+  }
+
+  private renderAuditRow(entry: AuditLogEntry) {
+    return html`
+      <li class="task-row ${entry.success
+        ? ''
+        : 'audit-failed'}">
+        <div class="task-row-head">
+          <span class="task-age">${formatRelativeAge(entry.timestamp)} · ${entry.durationMs}ms</span>
+          ${entry.clientId
+            ? html`<span class="task-origin">${this.taskOriginLabel(entry.clientId)}</span>`
+            : null}
+        </div>
+        <p class="task-id-line"><code class="task-id">${entry.tool}</code></p>
+        ${entry.error
+          ? html`<p class="task-msg audit-error">${entry.error}</p>`
+          : null}
+        <pre class="task-json">${JSON.stringify(entry.args, null, 2)}</pre>
       </li>
     `;
   }
 
+  private renderTasksTab() {
+    return this._tasksLoading
+      ? html`<p class="tasks-empty">Loading…</p>`
+      : html`
+          <div class="tasks-section">
+            <h4 class="tasks-subtitle">Pending</h4>
+            ${this._taskList.length === 0
+              ? html`<p class="tasks-empty tight">None</p>`
+              : html`<ul class="task-list">${this._taskList.map(t => this.renderTaskRow(t))}</ul>`}
+          </div>
+          <div class="tasks-section">
+            <h4 class="tasks-subtitle">In progress</h4>
+            ${this._inProgressList.length === 0
+              ? html`<p class="tasks-empty tight">None</p>`
+              : html`<ul class="task-list">${this._inProgressList.map(t => this.renderInProgressRow(t))}</ul>`}
+          </div>
+          ${this._finishedList.length === 0
+            ? null
+            : html`
+                <div class="tasks-section">
+                  <h4 class="tasks-subtitle">Recently finished</h4>
+                  <ul class="task-list">${this._finishedList.map(t => this.renderFinishedRow(t))}</ul>
+                </div>
+              `}
+        `;
+  }
+
+  private renderAuditTab() {
+    return this._auditLog.length === 0
+      ? html`<p class="tasks-empty">No tool calls yet</p>`
+      : html`
+          <div class="tasks-section">
+            <ul class="task-list">${this._auditLog.map(e => this.renderAuditRow(e))}</ul>
+          </div>
+        `;
+  }
+
   private async submitTask(): Promise<void> {
-    if (!this._menuElement || !this.devpilotClient || !this._rawPickedElement) {
+    if (!this._menuElement || !this.devpilotClient || this._rawPickedElements.length === 0) {
       return;
     }
     let payload: TaskSubmitPayload = {
       element: this._menuElement,
+      ...(this._menuElements.length > 1 && { elements: this._menuElements }),
+      ...(this._menuRegion && { region: this._menuRegion }),
       userNote: this.userNote.trim() || undefined,
+      priority: this._priority,
+      labels: parseLabels(this._labelsText),
     };
     this.submitting = true;
     try {
       payload = await runTaskPayloadHooks(payload, {
-        element: this._rawPickedElement,
+        elements: this._rawPickedElements,
+        screenshot: this._attachScreenshot,
         client: this.devpilotClient,
       });
       await this.devpilotClient.rpcCall('submitTask', payload);
@@ -684,6 +1211,31 @@ export class DevpilotTaskApp extends LitElement {
     }
   }
 
+  private answerToolConfirmation(entry: ToolConfirmation, approved: boolean): void {
+    clearTimeout(entry.timer);
+    this._confirmQueue = this._confirmQueue.filter(e => e !== entry);
+    entry.respond(approved);
+  }
+
+  private renderToolConfirmation(entry: ToolConfirmation) {
+    const { request } = entry;
+    return html`
+      <div class="backdrop" part="confirm-backdrop"></div>
+      <div class="dialog" part="confirm-dialog" @click=${(e: Event) => e.stopPropagation()}>
+        <h3 class="dialog-title">Allow tool call?</h3>
+        <p class="dialog-hint">${request.tool}</p>
+        <pre class="confirm-args">${JSON.stringify(request.args, null, 2)}</pre>
+        ${this._confirmQueue.length > 1
+          ? html`<p class="confirm-queue">${this._confirmQueue.length - 1} more waiting</p>`
+          : null}
+        <div class="actions">
+          <button type="button" class="btn secondary" @click=${() => this.answerToolConfirmation(entry, false)}>Deny</button>
+          <button type="button" class="btn primary" @click=${() => this.answerToolConfirmation(entry, true)}>Allow</button>
+        </div>
+      </div>
+    `;
+  }
+
   render() {
     const dockEdge = this._dockPosition?.edge ?? 'right';
     const dockClass = [
@@ -696,12 +1248,21 @@ export class DevpilotTaskApp extends LitElement {
         ? 'is-active'
         : '',
     ].filter(Boolean).join(' ');
+    const openQuestions = this._inProgressList.reduce((n, t) => n + getOpenQuestions(t).length, 0);
     return html`
       ${this.inspectMode
-        ? html`<div class="inspect-banner" part="inspect-banner">Click an element to attach a task (Esc to exit)</div>`
+        ? html`<div class="inspect-banner" part="inspect-banner">${this._selection.length > 0
+          ? `${this._selection.length} selected: Shift+click to add or remove, click or Enter to finish (Esc to exit)`
+          : 'Click an element to attach a task, Shift+click to pick several, or drag a region (Esc to exit)'}</div>`
+        : null}
+      ${this.inspectMode
+        ? this._selection.map(el => html`<div class="highlight selected" style=${getBoxStyle(el.getBoundingClientRect())}></div>`)
         : null}
       ${this._highlight && this.inspectMode
-        ? html`<div class="highlight" style=${`top:${this._highlight.top}px;left:${this._highlight.left}px;width:${this._highlight.width}px;height:${this._highlight.height}px`}></div>`
+        ? html`<div class="highlight" style=${getBoxStyle(this._highlight)}></div>`
+        : null}
+      ${this._regionBox && this.inspectMode
+        ? html`<div class="highlight region" style=${getBoxStyle(this._regionBox)}></div>`
         : null}
       ${this.tasksPanelOpen
         ? html`
@@ -717,9 +1278,28 @@ export class DevpilotTaskApp extends LitElement {
               @click=${(e: Event) => e.stopPropagation()}
             >
               <header class="tasks-header">
-                <h3 class="tasks-title">Tasks</h3>
+                <div class="tasks-tabs" role="tablist">
+                  <button
+                    type="button"
+                    role="tab"
+                    class="tasks-tab ${this._panelTab === 'tasks'
+                      ? 'is-active'
+                      : ''}"
+                    aria-selected=${this._panelTab === 'tasks'}
+                    @click=${() => this.selectPanelTab('tasks')}
+                  >Tasks</button>
+                  <button
+                    type="button"
+                    role="tab"
+                    class="tasks-tab ${this._panelTab === 'audit'
+                      ? 'is-active'
+                      : ''}"
+                    aria-selected=${this._panelTab === 'audit'}
+                    @click=${() => this.selectPanelTab('audit')}
+                  >Audit log</button>
+                </div>
                 <div class="tasks-header-actions">
-                  <button type="button" class="icon-btn" title="Refresh" @click=${() => this.loadDashboard({ showLoading: true })}><svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24"><path fill="currentColor" d="M12 20q-3.35 0-5.675-2.325T4 12t2.325-5.675T12 4q1.725 0 3.3.712T18 6.75V5q0-.425.288-.712T19 4t.713.288T20 5v5q0 .425-.288.713T19 11h-5q-.425 0-.712-.288T13 10t.288-.712T14 9h3.2q-.8-1.4-2.187-2.2T12 6Q9.5 6 7.75 7.75T6 12t1.75 4.25T12 18q1.7 0 3.113-.862t2.187-2.313q.2-.35.563-.487t.737-.013q.4.125.575.525t-.025.75q-1.025 2-2.925 3.2T12 20"/></svg></button>
+                  <button type="button" class="icon-btn" title="Refresh" @click=${() => this.refreshPanel()}><svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24"><path fill="currentColor" d="M12 20q-3.35 0-5.675-2.325T4 12t2.325-5.675T12 4q1.725 0 3.3.712T18 6.75V5q0-.425.288-.712T19 4t.713.288T20 5v5q0 .425-.288.713T19 11h-5q-.425 0-.712-.288T13 10t.288-.712T14 9h3.2q-.8-1.4-2.187-2.2T12 6Q9.5 6 7.75 7.75T6 12t1.75 4.25T12 18q1.7 0 3.113-.862t2.187-2.313q.2-.35.563-.487t.737-.013q.4.125.575.525t-.025.75q-1.025 2-2.925 3.2T12 20"/></svg></button>
                   <button type="button" class="icon-btn" title="Close" @click=${() => this.closeTasksPanel()}><svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24"><path fill="currentColor" d="m12 13.4l-4.9 4.9q-.275.275-.7.275t-.7-.275t-.275-.7t.275-.7l4.9-4.9l-4.9-4.9q-.275-.275-.275-.7t.275-.7t.7-.275t.7.275l4.9 4.9l4.9-4.9q.275-.275.7-.275t.7.275t.275.7t-.275.7L13.4 12l4.9 4.9q.275.275.275.7t-.275.7t-.7.275t-.7-.275z"/></svg></button>
                 </div>
               </header>
@@ -727,22 +1307,9 @@ export class DevpilotTaskApp extends LitElement {
                 ? html`<div class="approval-toast" part="approval-toast">${this._approvalToast}</div>`
                 : null}
               <div class="tasks-body">
-                ${this._tasksLoading
-                  ? html`<p class="tasks-empty">Loading…</p>`
-                  : html`
-                      <div class="tasks-section">
-                        <h4 class="tasks-subtitle">Pending</h4>
-                        ${this._taskList.length === 0
-                          ? html`<p class="tasks-empty tight">None</p>`
-                          : html`<ul class="task-list">${this._taskList.map(t => this.renderTaskRow(t))}</ul>`}
-                      </div>
-                      <div class="tasks-section">
-                        <h4 class="tasks-subtitle">In progress</h4>
-                        ${this._inProgressList.length === 0
-                          ? html`<p class="tasks-empty tight">None</p>`
-                          : html`<ul class="task-list">${this._inProgressList.map(t => this.renderInProgressRow(t))}</ul>`}
-                      </div>
-                    `}
+                ${this._panelTab === 'audit'
+                  ? this.renderAuditTab()
+                  : this.renderTasksTab()}
               </div>
             </section>
           `
@@ -752,7 +1319,9 @@ export class DevpilotTaskApp extends LitElement {
             <div class="backdrop" part="backdrop" @click=${() => !this.submitting && this.closeMenu()}></div>
             <div class="dialog" part="dialog" @click=${(e: Event) => e.stopPropagation()}>
               <h3 class="dialog-title">New task</h3>
-              <p class="dialog-hint">${this._menuElement.selector}</p>
+              <p class="dialog-hint">${this._menuElements.length > 1
+                ? `${this._menuElements.length} elements: ${this._menuElements.map(el => el.selector).join(', ')}`
+                : this._menuElement.selector}</p>
               <label class="note-label" for="dp-task-note">Message</label>
               <textarea
                 id="dp-task-note"
@@ -765,6 +1334,46 @@ export class DevpilotTaskApp extends LitElement {
                 rows="4"
                 ?disabled=${this.submitting}
               ></textarea>
+              <div class="triage-fields">
+                <div>
+                  <label class="note-label" for="dp-task-priority">Priority</label>
+                  <select
+                    id="dp-task-priority"
+                    class="note-input"
+                    .value=${this._priority}
+                    @change=${(e: Event) => {
+                      this._priority = (e.target as HTMLSelectElement).value as TaskPriority;
+                    }}
+                    ?disabled=${this.submitting}
+                  >
+                    ${TASK_PRIORITIES.map(p => html`<option value=${p} ?selected=${p === this._priority}>${p}</option>`)}
+                  </select>
+                </div>
+                <div>
+                  <label class="note-label" for="dp-task-labels">Labels</label>
+                  <input
+                    id="dp-task-labels"
+                    class="note-input"
+                    .value=${this._labelsText}
+                    @input=${(e: Event) => {
+                      this._labelsText = (e.target as HTMLInputElement).value;
+                    }}
+                    placeholder="e.g. a11y, copy"
+                    ?disabled=${this.submitting}
+                  />
+                </div>
+              </div>
+              <label class="check-label">
+                <input
+                  type="checkbox"
+                  .checked=${this._attachScreenshot}
+                  @change=${(e: Event) => {
+                    this._attachScreenshot = (e.target as HTMLInputElement).checked;
+                  }}
+                  ?disabled=${this.submitting}
+                />
+                Attach a screenshot with the picked elements outlined
+              </label>
               <div class="actions">
                 <button type="button" class="btn secondary" ?disabled=${this.submitting} @click=${() => this.closeMenu()}>Cancel</button>
                 <button type="button" class="btn primary" ?disabled=${this.submitting} @click=${() => this.submitTask()}>Submit</button>
@@ -772,6 +1381,9 @@ export class DevpilotTaskApp extends LitElement {
             </div>
           `
         : null}
+      ${this._confirmQueue.length > 0
+        ? this.renderToolConfirmation(this._confirmQueue[0])
+        : null}
       <div
         class=${dockClass}
         part="dock"
@@ -799,6 +1411,9 @@ export class DevpilotTaskApp extends LitElement {
             @click=${() => this.onTasksToggleClick()}
           >
             Tasks
+            ${openQuestions > 0
+              ? html`<span class="question-count" title="Questions from the agent">${openQuestions}</span>`
+              : null}
           </button>
           <button
             type="button"
@@ -853,6 +1468,14 @@ export class DevpilotTaskApp extends LitElement {
       background: rgba(56, 189, 248, 0.08);
       z-index: 2147483001;
     }
+    .highlight.selected {
+      border-color: #6366f1;
+      background: rgba(99, 102, 241, 0.1);
+    }
+    .highlight.region {
+      border-style: dashed;
+      border-radius: 0;
+    }
 
     /* ── Panel backdrop ── */
     .panel-backdrop {
@@ -891,10 +1514,29 @@ export class DevpilotTaskApp extends LitElement {
       border-bottom: 1px solid rgba(0, 0, 0, 0.06);
       flex-shrink: 0;
     }
-    .tasks-title {
-      margin: 0;
-      font-size: 14px;
+    .tasks-tabs {
+      display: flex;
+      gap: 4px;
+    }
+    .tasks-tab {
+      border: none;
+      background: transparent;
+      cursor: pointer;
+      padding: 4px 10px;
+      border-radius: 8px;
+      font: inherit;
+      font-size: 13px;
+      font-weight: 500;
+      color: #64748b;
+      transition: background 0.15s, color 0.15s;
+    }
+    .tasks-tab:hover {
+      background: rgba(0, 0, 0, 0.05);
+    }
+    .tasks-tab.is-active {
       font-weight: 600;
+      color: #1e293b;
+      background: rgba(0, 0, 0, 0.06);
     }
     .tasks-header-actions {
       display: flex;
@@ -1019,6 +1661,44 @@ export class DevpilotTaskApp extends LitElement {
       border-color: #38bdf8;
       color: #0284c7;
     }
+    .task-badge-status {
+      font-size: 10px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.03em;
+      padding: 2px 6px;
+      border-radius: 6px;
+      color: #15803d;
+      background: rgba(34, 197, 94, 0.12);
+    }
+    .task-badge-status.failed {
+      color: #b91c1c;
+      background: rgba(239, 68, 68, 0.12);
+    }
+    .task-badge-status.cancelled {
+      color: #64748b;
+      background: rgba(100, 116, 139, 0.12);
+    }
+    .task-reason {
+      color: #92400e;
+    }
+    .link-btn {
+      margin-top: 6px;
+      padding: 0;
+      border: none;
+      background: none;
+      font: inherit;
+      font-size: 12px;
+      color: #94a3b8;
+      cursor: pointer;
+    }
+    .link-btn:hover:not(:disabled) {
+      color: #b91c1c;
+    }
+    .row-actions {
+      display: flex;
+      gap: 6px;
+    }
     .task-row-head {
       display: flex;
       justify-content: space-between;
@@ -1057,10 +1737,49 @@ export class DevpilotTaskApp extends LitElement {
       white-space: pre-wrap;
       word-break: break-all;
     }
+    .task-row.audit-failed {
+      border-color: #fecaca;
+    }
+    .audit-error {
+      color: #b91c1c;
+    }
     .muted {
       color: #94a3b8;
       font-style: italic;
     }
+    .task-thread {
+      list-style: none;
+      margin: 8px 0 0;
+      padding: 0;
+    }
+    .thread-entry {
+      margin-top: 6px;
+      padding: 6px 10px;
+      border-left: 2px solid #f59e0b;
+      border-radius: 0 8px 8px 0;
+      background: rgba(245, 158, 11, 0.06);
+    }
+    .thread-entry.human {
+      border-left-color: #38bdf8;
+      background: rgba(56, 189, 248, 0.06);
+    }
+    .thread-author {
+      font-size: 11px;
+      color: #94a3b8;
+    }
+    .thread-text {
+      margin: 2px 0 0;
+      font-size: 13px;
+      color: #334155;
+      white-space: pre-wrap;
+    }
+    .thread-reply {
+      display: flex;
+      flex-direction: column;
+      align-items: flex-end;
+      gap: 6px;
+      margin-top: 6px;
+    }
 
     /* ── Dock (floating widget) ── */
     .dock {
@@ -1172,6 +1891,15 @@ export class DevpilotTaskApp extends LitElement {
       color: #38bdf8;
       background: rgba(56, 189, 248, 0.15);
     }
+    .question-count {
+      margin-left: 4px;
+      padding: 0 6px;
+      border-radius: 100px;
+      background: #f59e0b;
+      color: #0f172a;
+      font-size: 11px;
+      font-weight: 600;
+    }
     .badge {
       display: flex;
       align-items: center;
@@ -1249,6 +1977,23 @@ export class DevpilotTaskApp extends LitElement {
       color: #64748b;
       word-break: break-all;
     }
+    .confirm-args {
+      margin: 0;
+      max-height: 240px;
+      overflow: auto;
+      padding: 10px 12px;
+      border-radius: 10px;
+      background: rgba(0, 0, 0, 0.04);
+      font-family: ui-monospace, SFMono-Regular, 'SF Mono', Menlo, monospace;
+      font-size: 12px;
+      white-space: pre-wrap;
+      word-break: break-all;
+    }
+    .confirm-queue {
+      margin: 8px 0 0;
+      font-size: 12px;
+      color: #64748b;
+    }
     .note-label {
       display: block;
       margin-bottom: 6px;
@@ -1272,6 +2017,47 @@ export class DevpilotTaskApp extends LitElement {
     .note-input:focus {
       border-color: #38bdf8;
     }
+    .check-label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      margin-top: 12px;
+      font-size: 13px;
+      color: #475569;
+    }
+    .triage-fields {
+      display: grid;
+      grid-template-columns: 1fr 2fr;
+      gap: 8px;
+      margin-top: 12px;
+    }
+    .task-triage {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+      margin: 4px 0;
+    }
+    .task-priority,
+    .task-label {
+      font-size: 10px;
+      font-weight: 600;
+      padding: 2px 6px;
+      border-radius: 6px;
+      color: #475569;
+      background: rgba(100, 116, 139, 0.12);
+    }
+    .task-priority {
+      text-transform: uppercase;
+      letter-spacing: 0.03em;
+    }
+    .task-priority.urgent {
+      color: #b91c1c;
+      background: rgba(239, 68, 68, 0.12);
+    }
+    .task-priority.high {
+      color: #b45309;
+      background: rgba(245, 158, 11, 0.14);
+    }
     .actions {
       display: flex;
       gap: 8px;
@@ -1,4 +1,10 @@
-import type { TaskElementInfo } from '../../core/types';
+import type { TaskElementInfo, TaskRegion } from '../../core/types';
+
+/** Rectangle in viewport coordinates, as from `getBoundingClientRect` */
+export interface ViewportRect { top: number, left: number, width: number, height: number }
+
+/** Keeps a region dragged over a whole page from attaching hundreds of elements */
+export const MAX_REGION_ELEMENTS = 20;
 
 const IMPLICIT_ROLE: Record<string, string> = {
   a: 'link',
@@ -182,3 +188,81 @@ export function shouldIgnorePickTarget(node: EventTarget | null): boolean {
   }
   return false;
 }
+
+/** Rectangle spanned by the two corners of a drag */
+export function getRectFromPoints(x1: number, y1: number, x2: number, y2: number): ViewportRect {
+  return {
+    top: Math.min(y1, y2),
+    left: Math.min(x1, x2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1),
+  };
+}
+
+/** Smallest rectangle enclosing all of `rects` */
+export function getBoundingRect(rects: ViewportRect[]): ViewportRect | null {
+  if (rects.length === 0) {
+    return null;
+  }
+  const top = Math.min(...rects.map(r => r.top));
+  const left = Math.min(...rects.map(r => r.left));
+  const bottom = Math.max(...rects.map(r => r.top + r.height));
+  const right = Math.max(...rects.map(r => r.left + r.width));
+  return { top, left, width: right - left, height: bottom - top };
+}
+
+export function containsRect(outer: ViewportRect, inner: ViewportRect): boolean {
+  return inner.left >= outer.left
+    && inner.top >= outer.top
+    && inner.left + inner.width <= outer.left + outer.width
+    && inner.top + inner.height <= outer.top + outer.height;
+}
+
+function intersectsRect(a: ViewportRect, b: ViewportRect): boolean {
+  return a.left < b.left + b.width
+    && b.left < a.left + a.width
+    && a.top < b.top + b.height
+    && b.top < a.top + a.height;
+}
+
+/** Region in document coordinates, so it still points at the same content after scrolling */
+export function toTaskRegion(rect: ViewportRect, scrollX: number, scrollY: number): TaskRegion {
+  return {
+    x: Math.round(rect.left + scrollX),
+    y: Math.round(rect.top + scrollY),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  };
+}
+
+/**
+ * Outermost visible elements lying entirely inside `region`, in document order
+ * Descends only into elements the region partly covers, so a card yields the card rather than its text nodes
+ */
+export function findElementsInRegion(
+  region: ViewportRect,
+  root: Element = document.body,
+  max: number = MAX_REGION_ELEMENTS,
+): Element[] {
+  const found: Element[] = [];
+  const visit = (parent: Element): void => {
+    for (const child of Array.from(parent.children)) {
+      if (found.length >= max) {
+        return;
+      }
+      if (shouldIgnorePickTarget(child)) {
+        continue;
+      }
+      const rect = child.getBoundingClientRect();
+      if (rect.width > 0 && rect.height > 0 && containsRect(region, rect)) {
+        found.push(child);
+      }
+      else if (intersectsRect(region, rect) || rect.width === 0 || rect.height === 0) {
+        // Zero-sized wrappers (e.g. `display: contents`) may still hold matching children
+        visit(child);
+      }
+    }
+  };
+  visit(root);
+  return found;
+}
@@ -7,12 +7,27 @@ export type RpcHandlers = ClientFunctions;
 export interface TaskPayloadHookContext {
   /** The raw DOM element that was picked by the user. */
   element: Element
+  /** Position of `element` among the picked elements (shift-click or region picks). */
+  index: number
+  /** Every picked element, for hooks that handle them together. */
+  elements: Element[]
+  /** The developer asked to attach a screenshot; a hook that can take one sets `payload.screenshot`. */
+  screenshot: boolean
   client: DevpilotClient
 }
 
+/**
+ * What `runTaskPayloadHooks` is called with: every picked element, or the single `element` callers passed
+ * before several elements could be picked. `screenshot` defaults to `false`.
+ */
+export type TaskPayloadRunContext = Pick<TaskPayloadHookContext, 'client'>
+  & Partial<Pick<TaskPayloadHookContext, 'screenshot'>>
+  & (Pick<TaskPayloadHookContext, 'elements'> | Pick<TaskPayloadHookContext, 'element'>);
+
 /**
  * A hook that enriches the task payload before submission.
  * Hooks run in registration order; each receives the payload returned by the previous hook.
+ * They run once per picked element, with that element's info as `payload.element`.
  */
 export type TaskPayloadHook = (
   payload: TaskSubmitPayload,
@@ -26,18 +41,48 @@ type PromisifyServerFunctions<T = ServerFunctions> = {
     : never;
 };
 
+/** Calls the `serverSetup` methods of one plugin, unaffected by methods of other plugins with the same name. */
+export interface DevpilotPluginClient<F extends Record<string, any>> {
+  rpcCall: <K extends keyof PromisifyServerFunctions<F>>(
+    method: K,
+    ...args: Parameters<PromisifyServerFunctions<F>[K]>
+  ) => Promise<ReturnType<PromisifyServerFunctions<F>[K]>>
+}
+
 export interface DevpilotClient<S extends Record<string, any> = ServerFunctions> {
   getClientId: () => string | null
   rpcCall: <K extends keyof PromisifyServerFunctions<S>>(
     method: K,
     ...args: Parameters<PromisifyServerFunctions<S>[K]>
   ) => Promise<ReturnType<PromisifyServerFunctions<S>[K]>>
+  /**
+   * RPC scoped to the server methods of the plugin with this `namespace`
+   * @example client.plugin<DomInspectorServerMethods>('builtin-dom-inspector').rpcCall('appendLogs', logs)
+   */
+  plugin: <F extends Record<string, any>>(namespace: string) => DevpilotPluginClient<F>
   isConnected: () => boolean
   onConnected: (callback: () => void) => () => void
   onDisconnected: (callback: () => void) => () => void
 }
 
 export interface DevpilotClientOptions {
+  /** Auth token embedded by the virtual module; required by the WebSocket server */
+  token?: string
+  /**
+   * How long `rpcCall` waits for the server before rejecting with an `RpcError` (`code: 'timeout'`), in milliseconds
+   * @default 30000
+   */
+  rpcTimeout?: number
+  /**
+   * Connect straight to the standalone WebSocket server on this port of the page's host instead of `/__devpilot_ws`
+   * Set by the virtual module for Rollup, Rolldown and esbuild, where no dev server proxies that path
+   */
+  wsPort?: number
   rpcHandlers?: Partial<RpcHandlers>
   extendRpcHandlers?: Record<string, (...args: any[]) => any>
+  /**
+   * Client handlers of each plugin by namespace; the server reaches them as `${namespace}:${method}` and,
+   * for compatibility, by their bare names
+   */
+  pluginRpcHandlers?: Record<string, Record<string, (...args: any[]) => any>>
 }
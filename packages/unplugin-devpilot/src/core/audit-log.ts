@@ -0,0 +1,78 @@
+import type { AuditLogEntry, AuditLogQuery } from './types';
+import { randomUUID } from 'node:crypto';
+
+/** Oldest entries are dropped beyond this many. */
+const AUDIT_LOG_LIMIT = 500;
+/** Longer string arguments are cut to this many characters. */
+const AUDIT_ARG_MAX_LENGTH = 200;
+/** Arguments that carry typed text or secrets, e.g. `input_text`'s `text` or `complete_task`'s `token`. */
+const REDACTED_ARG_KEYS = new Set(['text', 'token', 'answer', 'password', 'secret']);
+
+const entries: AuditLogEntry[] = [];
+
+function redactArg(key: string, value: unknown): unknown {
+  if (typeof value === 'string') {
+    if (REDACTED_ARG_KEYS.has(key)) {
+      return `[redacted, ${value.length} chars]`;
+    }
+    return value.length > AUDIT_ARG_MAX_LENGTH
+      ? `${value.slice(0, AUDIT_ARG_MAX_LENGTH)}… [${value.length} chars]`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactArg(key, item));
+  }
+  if (value && typeof value === 'object') {
+    return redactArgs(value as Record<string, unknown>);
+  }
+  return value;
+}
+
+function redactArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, redactArg(key, value)]));
+}
+
+/**
+ * Store a tool call; free-text and secret arguments are redacted and long strings truncated first,
+ * since the log is readable from the page and through `get_audit_log`
+ */
+export function recordAuditEntry(entry: Omit<AuditLogEntry, 'id'>): AuditLogEntry {
+  const recorded = { id: `audit_${randomUUID()}`, ...entry, args: redactArgs(entry.args) };
+  entries.push(recorded);
+  if (entries.length > AUDIT_LOG_LIMIT) {
+    entries.splice(0, entries.length - AUDIT_LOG_LIMIT);
+  }
+  return recorded;
+}
+
+/**
+ * Matching entries, newest first
+ */
+export function getAuditLog(query: AuditLogQuery = {}): AuditLogEntry[] {
+  const result: AuditLogEntry[] = [];
+  const limit = query.limit ?? 50;
+  for (let i = entries.length - 1; i >= 0 && result.length < limit; i--) {
+    const entry = entries[i];
+    if (query.tool && entry.tool !== query.tool) {
+      continue;
+    }
+    if (query.clientId && entry.clientId !== query.clientId) {
+      continue;
+    }
+    if (query.sessionId && entry.sessionId !== query.sessionId) {
+      continue;
+    }
+    if (query.success !== undefined && entry.success !== query.success) {
+      continue;
+    }
+    if (query.since !== undefined && entry.timestamp < query.since) {
+      continue;
+    }
+    result.push(entry);
+  }
+  return result;
+}
+
+export function clearAuditLog(): void {
+  entries.length = 0;
+}
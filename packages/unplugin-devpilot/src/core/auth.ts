@@ -0,0 +1,162 @@
+import type { IncomingMessage } from 'node:http';
+import { Buffer } from 'node:buffer';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { WS_AUTH_PROTOCOL_PREFIX } from './constants';
+
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '::1', '[::1]']);
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::', '[::]']);
+
+let authToken: string | null = null;
+
+/**
+ * Address to connect to a server bound to `bindHost` from this machine
+ */
+export function resolveConnectHost(bindHost: string): string {
+  if (bindHost === '0.0.0.0') {
+    return '127.0.0.1';
+  }
+  if (WILDCARD_HOSTS.has(bindHost)) {
+    return '[::1]';
+  }
+  return bindHost.includes(':') && !bindHost.startsWith('[')
+    ? `[${bindHost}]`
+    : bindHost;
+}
+
+/**
+ * Secret shared with the browser client (via the virtual module) and MCP agents (via the lock file and skill)
+ * Generated once per dev-server process
+ */
+export function getAuthToken(): string {
+  authToken ??= randomBytes(24).toString('base64url');
+  return authToken;
+}
+
+/**
+ * Adopt the token of the MCP hub this dev server registered with, so one token works for every app
+ */
+export function setAuthToken(token: string): void {
+  authToken = token;
+}
+
+export function verifyAuthToken(candidate: string | undefined | null): boolean {
+  if (!candidate) {
+    return false;
+  }
+  const expected = Buffer.from(getAuthToken());
+  const actual = Buffer.from(candidate);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function parseHostname(value: string): string | null {
+  try {
+    return new URL(value.includes('://')
+      ? value
+      : `http://${value}`).hostname;
+  }
+  catch {
+    return null;
+  }
+}
+
+/**
+ * Whether `hostname` may address a server bound to `bindHost`
+ * Loopback names are always accepted; anything else only when the server was bound to it or to all interfaces
+ */
+function isAllowedHostname(hostname: string, bindHost: string): boolean {
+  if (LOOPBACK_HOSTNAMES.has(hostname)) {
+    return true;
+  }
+  if (WILDCARD_HOSTS.has(bindHost)) {
+    return true;
+  }
+  return hostname === bindHost;
+}
+
+/**
+ * Reject requests whose Host header names a foreign host (DNS rebinding)
+ */
+export function isAllowedHost(req: IncomingMessage, bindHost: string): boolean {
+  const host = req.headers.host;
+  if (!host) {
+    return false;
+  }
+  const hostname = parseHostname(host);
+  return hostname !== null && isAllowedHostname(hostname, bindHost);
+}
+
+/**
+ * MCP agents are not browsers; an Origin header is only accepted when it points back at an allowed host
+ */
+export function isAllowedMcpOrigin(req: IncomingMessage, bindHost: string): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  const hostname = parseHostname(origin);
+  return hostname !== null && isAllowedHostname(hostname, bindHost);
+}
+
+/**
+ * Browsers always send an Origin, so a socket opened by another website shows up here
+ * Accepted: no Origin (not a browser), or an http(s) page on a loopback host, the host the server was bound to,
+ * or one of `allowedOrigins` (origins or bare hostnames). The Host header is not trusted: a DNS-rebound page
+ * controls both headers. Wildcard binds do not widen this either: any site could otherwise connect
+ */
+export function isAllowedWsOrigin(req: IncomingMessage, bindHost?: string, allowedOrigins: string[] = []): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  let url: URL;
+  try {
+    url = new URL(origin);
+  }
+  catch {
+    // Includes the opaque `null` origin of sandboxed frames and `file://` pages
+    return false;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+  if (LOOPBACK_HOSTNAMES.has(url.hostname) || url.hostname === bindHost) {
+    return true;
+  }
+  return allowedOrigins.some(allowed => parseHostname(allowed) === url.hostname);
+}
+
+export function getBearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim();
+}
+
+function getWsProtocols(req: IncomingMessage): string[] {
+  return req.headers['sec-websocket-protocol']?.split(',').map(p => p.trim()) ?? [];
+}
+
+/**
+ * Whether the client offered `protocol` as a subprotocol
+ */
+export function hasWsProtocol(req: IncomingMessage, protocol: string): boolean {
+  return getWsProtocols(req).includes(protocol);
+}
+
+/**
+ * Value of the offered subprotocol starting with `prefix`
+ */
+export function getWsProtocolValue(req: IncomingMessage, prefix: string): string | null {
+  const protocol = getWsProtocols(req).find(p => p.startsWith(prefix));
+  return protocol
+    ? protocol.slice(prefix.length)
+    : null;
+}
+
+/**
+ * Browsers cannot set headers on WebSocket handshakes, so the client offers the token as a subprotocol
+ */
+export function getWsProtocolToken(req: IncomingMessage): string | null {
+  return getWsProtocolValue(req, WS_AUTH_PROTOCOL_PREFIX);
+}
@@ -0,0 +1,74 @@
+import type { McpResourceRegister } from './plugin';
+import { clientManager } from './client-manager';
+import { defineMcpResourceRegister, jsonResourceContents } from './plugin/mcp';
+
+export const CLIENTS_RESOURCE_URI = 'devpilot://clients';
+export const PENDING_TASKS_RESOURCE_URI = 'devpilot://tasks/pending';
+const TASK_RESOURCE_PREFIX = 'devpilot://tasks/';
+
+const clients = defineMcpResourceRegister(
+  'clients',
+  CLIENTS_RESOURCE_URI,
+  {
+    title: 'Connected Clients',
+    description: 'All connected browser instances with their URL, title and activity',
+    mimeType: 'application/json',
+  },
+  uri => jsonResourceContents(uri, clientManager.getAllClients()),
+);
+
+const pendingTasks = defineMcpResourceRegister(
+  'pending_tasks',
+  PENDING_TASKS_RESOURCE_URI,
+  {
+    title: 'Pending Tasks',
+    description: 'Tasks submitted from the browser that no agent has claimed yet',
+    mimeType: 'application/json',
+  },
+  uri => jsonResourceContents(uri, clientManager.getPendingTasks(false)),
+);
+
+const task = defineMcpResourceRegister(
+  'task',
+  `${TASK_RESOURCE_PREFIX}{id}`,
+  {
+    title: 'Task',
+    description: 'A single task with its element info, note, status and result',
+    mimeType: 'application/json',
+    list: () => clientManager.getTaskHistory({ limit: 50 }).map(t => ({
+      uri: `${TASK_RESOURCE_PREFIX}${t.id}`,
+      name: `task ${t.id}`,
+      description: t.userNote,
+      mimeType: 'application/json',
+    })),
+  },
+  (uri, { id }) => {
+    const taskId = Array.isArray(id)
+      ? id[0]
+      : id;
+    const found = clientManager.getTask(taskId);
+    if (!found) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    return jsonResourceContents(uri, found);
+  },
+);
+
+export function getBuiltinResources(): McpResourceRegister[] {
+  return [clients(), pendingTasks(), task()];
+}
+
+/**
+ * Forward client manager changes to subscribers of the builtin resources
+ * @returns a function that stops watching
+ */
+export function watchBuiltinResources(notify: (match: (uri: string) => boolean) => void): () => void {
+  const onClientsChanged = (): void => notify(uri => uri === CLIENTS_RESOURCE_URI);
+  const onTasksChanged = (): void => notify(uri => uri.startsWith(TASK_RESOURCE_PREFIX));
+  clientManager.events.on('clientsChanged', onClientsChanged);
+  clientManager.events.on('tasksChanged', onTasksChanged);
+  return () => {
+    clientManager.events.off('clientsChanged', onClientsChanged);
+    clientManager.events.off('tasksChanged', onTasksChanged);
+  };
+}
@@ -1,8 +1,10 @@
-import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ImageContent, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import type { McpToolResolved } from './plugin';
-import type { ClientDiscoveryFilter } from './types';
+import type { ClientDiscoveryFilter, PendingTask, TaskActor } from './types';
 import { z } from 'zod';
+import { getAuditLog } from './audit-log';
 import { clientManager } from './client-manager';
+import { TASK_PRIORITIES } from './constants';
 import { defineMcpToolRegister } from './plugin/mcp';
 
 const completeTaskAnnotations = {
@@ -10,29 +12,57 @@ const completeTaskAnnotations = {
   destructiveHint: true,
 } satisfies ToolAnnotations;
 
+/** Task changes made through MCP are recorded with the session that made them */
+function agentActor(extra: { sessionId?: string }): TaskActor {
+  return { by: 'agent', sessionId: extra.sessionId };
+}
+
+/** Screenshots attached to `tasks` as image content, each preceded by the id of its task */
+async function getScreenshotContent(tasks: PendingTask[]): Promise<Array<TextContent | ImageContent>> {
+  const content: Array<TextContent | ImageContent> = [];
+  for (const task of tasks.filter(t => t.screenshot)) {
+    const screenshot = await clientManager.runTaskAction('getTaskScreenshot', task.id);
+    if (screenshot) {
+      content.push(
+        { type: 'text', text: `Screenshot of task ${task.id}, picked elements outlined:` },
+        { type: 'image', mimeType: screenshot.mimeType, data: screenshot.data },
+      );
+    }
+  }
+  return content;
+}
+
+const includeScreenshotsSchema = z.boolean().optional().default(false).describe('Return the screenshots the developer attached (`screenshot` set on the task) as images');
+
 const listClients = defineMcpToolRegister(
   'list_clients',
   {
     title: 'List Clients',
-    description: 'List all connected browser instances with optional filtering by URL, title, or clientId',
+    description: 'List all connected browser instances with optional filtering by URL, title, clientId or what the tab reports: viewport, devicePixelRatio, colorScheme, language, visibility, focus and the detected framework. Each client names its app (`project`, `root`) and `bundler`; with a shared MCP hub, clients of every app are listed',
     inputSchema: {
       urlPattern: z.string().optional().describe('Filter clients by URL pattern (substring match, case-insensitive)'),
       titlePattern: z.string().optional().describe('Filter clients by page title pattern (substring match, case-insensitive)'),
       clientId: z.string().optional().describe('Filter by specific client ID'),
+      project: z.string().optional().describe('Filter by app name (`package.json` name)'),
+      bundler: z.string().optional().describe('Filter by bundler, e.g. "vite" or "webpack"'),
+      framework: z.string().optional().describe('Filter by detected frontend framework, e.g. "react", "vue", "next"'),
+      colorScheme: z.enum(['light', 'dark']).optional().describe('Filter by preferred color scheme'),
+      language: z.string().optional().describe('Filter by browser language; "en" also matches "en-US"'),
+      visibility: z.enum(['visible', 'hidden']).optional().describe('Filter by tab visibility'),
+      focused: z.boolean().optional().describe('Filter by whether the page has focus'),
+      minViewportWidth: z.number().optional().describe('Only viewports at least this wide, in CSS pixels'),
+      maxViewportWidth: z.number().optional().describe('Only viewports at most this wide, e.g. 480 for mobile emulation'),
+      minDevicePixelRatio: z.number().optional().describe('Only tabs with at least this devicePixelRatio'),
       groupByUrl: z.boolean().optional().default(false).describe('Group results by URL for easier identification'),
     },
   },
   async (params) => {
-    const filter: ClientDiscoveryFilter = {
-      urlPattern: params.urlPattern,
-      titlePattern: params.titlePattern,
-      clientId: params.clientId,
-    };
+    const { groupByUrl, ...filter }: ClientDiscoveryFilter & { groupByUrl: boolean } = params;
 
     let clients;
     let grouped: Record<string, any[]> | undefined;
 
-    if (params.groupByUrl) {
+    if (groupByUrl) {
       grouped = clientManager.getClientsByUrl();
       clients = Object.values(grouped).flat();
     }
@@ -45,7 +75,7 @@ const listClients = defineMcpToolRegister(
       total: clients.length,
     };
 
-    if (params.groupByUrl) {
+    if (groupByUrl) {
       result.grouped = grouped;
     }
 
@@ -73,24 +103,34 @@ const getPendingTasks = defineMcpToolRegister(
   'get_pending_tasks',
   {
     title: 'Get Pending Tasks',
-    description: 'List tasks still in the pending queue. If you use claim_task, set clearAfterFetch to false first so task ids stay available to claim.',
+    description: 'List tasks still in the pending queue, most urgent first. Tasks carry the `priority` and `labels` the developer chose when picking them. If you use claim_task, set clearAfterFetch to false first so task ids stay available to claim.',
     inputSchema: {
-      clearAfterFetch: z.boolean().optional().default(true).describe('Clear the pending queue after returning (default true). Use false when you will claim_task by id.'),
+      clearAfterFetch: z.boolean().optional().default(true).describe('Clear the returned tasks from the pending queue (default true). Use false when you will claim_task by id.'),
+      minPriority: z.enum(TASK_PRIORITIES).optional().describe('Only tasks at least this urgent; tasks without a priority count as "normal"'),
+      labels: z.array(z.string()).optional().describe('Only tasks carrying all of these labels (case-insensitive)'),
+      sortBy: z.enum(['priority', 'timestamp']).optional().default('priority').describe('"priority" (then oldest first) or "timestamp" (oldest first)'),
+      includeScreenshots: includeScreenshotsSchema,
     },
   },
   async (params) => {
-    const tasks = clientManager.getPendingTasks(params.clearAfterFetch);
+    const { clearAfterFetch, includeScreenshots, ...filter } = params;
+    const tasks = clientManager.getPendingTasks(clearAfterFetch, filter);
     return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          hasTasks: tasks.length > 0,
-          tasks,
-          message: tasks.length > 0
-            ? `Found ${tasks.length} pending task(s)`
-            : 'No pending tasks',
-        }, null, 2),
-      }],
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            hasTasks: tasks.length > 0,
+            tasks,
+            message: tasks.length > 0
+              ? `Found ${tasks.length} pending task(s)`
+              : 'No pending tasks',
+          }, null, 2),
+        },
+        ...includeScreenshots
+          ? await getScreenshotContent(tasks)
+          : [],
+      ],
     };
   },
 );
@@ -100,18 +140,24 @@ const claimTask = defineMcpToolRegister(
   {
     title: 'Claim task',
     description:
-      'Take ownership of a pending task: removes it from the queue and sets status to in progress. Use get_pending_tasks with clearAfterFetch: false to read task ids, then claim one id before working.',
+      'Take ownership of a pending task: removes it from the queue and sets status to in progress. Use get_pending_tasks with clearAfterFetch: false to read task ids, then claim one id before working. The task is locked to this MCP session: other sessions cannot complete, fail, release or ask about it.',
     inputSchema: {
       taskId: z.string().describe('Pending task id to claim'),
+      includeScreenshot: includeScreenshotsSchema,
     },
   },
-  async (params) => {
-    const r = clientManager.claimTask(params.taskId);
+  async (params, extra) => {
+    const r = await clientManager.runTaskAction('claimTask', params.taskId, agentActor(extra));
     return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify(r, null, 2),
-      }],
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(r, null, 2),
+        },
+        ...r.ok && params.includeScreenshot
+          ? await getScreenshotContent([r.task])
+          : [],
+      ],
     };
   },
 );
@@ -129,13 +175,15 @@ const completeTask = defineMcpToolRegister(
     },
     annotations: completeTaskAnnotations,
   },
-  async (params) => {
-    const r = clientManager.completeTaskWithApproval(
+  async (params, extra) => {
+    const r = await clientManager.runTaskAction(
+      'completeTaskWithApproval',
       params.taskId,
       params.approvalToken,
       params.summary === undefined
         ? undefined
         : { summary: params.summary },
+      agentActor(extra),
     );
     return {
       content: [{
@@ -146,14 +194,100 @@ const completeTask = defineMcpToolRegister(
   },
 );
 
+const failTask = defineMcpToolRegister(
+  'fail_task',
+  {
+    title: 'Fail task',
+    description:
+      'Give up on an in-progress task, e.g. when it cannot be done as asked. The reason is shown to the developer, who can reopen the task from the Tasks panel. To let another attempt pick it up instead, use release_task.',
+    inputSchema: {
+      taskId: z.string().describe('In-progress task id'),
+      reason: z.string().describe('Why the task could not be done'),
+    },
+  },
+  async (params, extra) => {
+    const r = await clientManager.runTaskAction('failTask', params.taskId, params.reason, agentActor(extra));
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify(r, null, 2),
+      }],
+    };
+  },
+);
+
+const releaseTask = defineMcpToolRegister(
+  'release_task',
+  {
+    title: 'Release task',
+    description:
+      'Put an in-progress task back in the pending queue without finishing it, so it can be claimed again. The reason is kept as `reopenReason` on the queued task.',
+    inputSchema: {
+      taskId: z.string().describe('In-progress task id'),
+      reason: z.string().optional().describe('Why the task is released'),
+    },
+  },
+  async (params, extra) => {
+    const r = await clientManager.runTaskAction('releaseTask', params.taskId, params.reason, agentActor(extra));
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify(r, null, 2),
+      }],
+    };
+  },
+);
+
+const askTaskQuestion = defineMcpToolRegister(
+  'ask_task_question',
+  {
+    title: 'Ask task question',
+    description:
+      'Ask the developer a clarifying question about an in-progress task, e.g. when its note is ambiguous. The question appears in the browser Tasks panel with a reply box. With waitForAnswer, waits for the reply; otherwise read it later from the task `comments` in get_task_history (the answer has `inReplyTo` set to the returned questionId).',
+    inputSchema: {
+      taskId: z.string().describe('In-progress task id (claim_task first)'),
+      question: z.string().min(1).describe('Question for the developer'),
+      waitForAnswer: z.boolean().optional().default(false).describe('Wait until the developer answers or timeoutSeconds pass'),
+      // MCP clients commonly give up on a tool call after 60 seconds
+      timeoutSeconds: z.number().min(1).max(55).optional().default(45).describe('How long waitForAnswer waits'),
+    },
+  },
+  async (params, extra) => {
+    const asked = await clientManager.runTaskAction(
+      'askTaskQuestion',
+      params.taskId,
+      params.question,
+      agentActor(extra),
+    );
+    let result: Record<string, any> = asked;
+    if (asked.ok && params.waitForAnswer) {
+      const answer = await clientManager.waitForTaskAnswer(
+        params.taskId,
+        asked.questionId,
+        params.timeoutSeconds * 1000,
+        extra.signal,
+      );
+      result = answer
+        ? { ...asked, answer }
+        : { ...asked, answer: null, message: 'No answer yet; check the task comments in get_task_history later.' };
+    }
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      }],
+    };
+  },
+);
+
 const getTaskHistory = defineMcpToolRegister(
   'get_task_history',
   {
     title: 'Get Task History',
-    description: 'Get history of tasks (including completed and failed tasks). Useful for task recovery after page refresh.',
+    description: 'Get history of tasks (including completed, failed and cancelled tasks), with the questions and answers of ask_task_question in `comments` and every status change, by whom and when, in `transitions`. Useful for task recovery after page refresh.',
     inputSchema: {
       clientId: z.string().optional().describe('Filter tasks by client ID'),
-      status: z.enum(['pending', 'in_progress', 'completed', 'failed']).optional().describe('Filter by task status'),
+      status: z.enum(['pending', 'in_progress', 'completed', 'failed', 'cancelled']).optional().describe('Filter by task status'),
       limit: z.number().optional().default(50).describe('Maximum number of tasks to return'),
     },
   },
@@ -195,18 +329,46 @@ const getTaskHistory = defineMcpToolRegister(
   },
 );
 
+const getAuditLogTool = defineMcpToolRegister(
+  'get_audit_log',
+  {
+    title: 'Get Audit Log',
+    description: 'List recent MCP tool invocations (newest first) with arguments, target client, duration and outcome. Useful for reviewing what an agent did.',
+    inputSchema: {
+      tool: z.string().optional().describe('Filter by tool name'),
+      clientId: z.string().optional().describe('Filter by target client ID'),
+      sessionId: z.string().optional().describe('Filter by MCP session ID'),
+      success: z.boolean().optional().describe('Only successful (true) or failed (false) calls'),
+      since: z.number().optional().describe('Only calls at or after this timestamp (ms since epoch)'),
+      limit: z.number().optional().default(50).describe('Maximum number of entries to return'),
+    },
+    annotations: {
+      readOnlyHint: true,
+    },
+  },
+  async (params) => {
+    const entries = getAuditLog(params);
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({ entries, total: entries.length, query: params }, null, 2),
+      }],
+    };
+  },
+);
+
 const builtinToolRegisters = [
   listClients,
   getPendingTasks,
   claimTask,
   completeTask,
+  failTask,
+  releaseTask,
+  askTaskQuestion,
   getTaskHistory,
+  getAuditLogTool,
 ];
 
 export function getBuiltinTools(): McpToolResolved[] {
   return builtinToolRegisters.map(r => r() as McpToolResolved);
 }
-
-export function getBuiltinToolNames(): string[] {
-  return builtinToolRegisters.map(r => r().name);
-}
@@ -1,14 +1,121 @@
 import type { BirpcReturn } from 'birpc';
+import type { Emitter } from 'mitt';
+import type { Storage } from 'unstorage';
 import type { WebSocket } from 'ws';
-import type { ClientDiscoveryFilter, ClientFunctions, ClientInfo, PendingTask, ServerFunctions, TaskHistory } from './types';
+import type { PluginRpcFunctions } from './plugin-rpc';
+import type {
+  ClientDiscoveryFilter,
+  ClientFunctions,
+  ClientInfo,
+  PendingTask,
+  PendingTaskFilter,
+  ProjectInfo,
+  ReportedClientInfo,
+  ServerFunctions,
+  TaskActor,
+  TaskComment,
+  TaskDashboard,
+  TaskHistory,
+  TaskScreenshot,
+  TaskStatus,
+} from './types';
 import { uniqueId } from 'es-toolkit/compat';
+import mitt from 'mitt';
+import { prefixStorage } from 'unstorage';
+import { TASK_PRIORITIES, TASK_SCREENSHOT_NAMESPACE } from './constants';
+import { createPluginRpcProxy } from './plugin-rpc';
+import { getPluginStorage } from './storage';
 
 export interface ClientConnection<T extends Record<string, any> = object> {
-  ws: WebSocket
+  /** Absent for tabs of another dev server registered through the hub (`Options.hub`) */
+  ws?: WebSocket
   info: ClientInfo
   rpc: BirpcReturn<ClientFunctions & T, ServerFunctions>
+  /**
+   * Call the client handlers of one plugin by namespace, unaffected by handlers of other plugins with the same name
+   * @example clientManager.getClient(id)?.plugin<DomInspectorRpc>('builtin-dom-inspector').querySelector('button')
+   */
+  plugin: <F extends Record<string, any>>(namespace: string) => PluginRpcFunctions<F>
 }
 
+/** Clients and tasks of one dev server, as sent to the MCP hub */
+export interface ClientManagerSnapshot {
+  clients: ClientInfo[]
+  detachedClients: ClientInfo[]
+  pendingTasks: PendingTask[]
+  taskHistory: TaskHistory[]
+}
+
+/** Task operations `runTaskAction` can route to the dev server that owns the task */
+export const TASK_ACTIONS = [
+  'claimTask',
+  'completeTaskWithApproval',
+  'failTask',
+  'releaseTask',
+  'askTaskQuestion',
+  'getTaskScreenshot',
+  'dropClaim',
+] as const;
+export type TaskAction = typeof TASK_ACTIONS[number];
+
+type TaskActionArgs<K extends TaskAction> = ClientManager[K] extends (taskId: string, ...args: infer A) => any
+  ? A
+  : never;
+
+/** Another dev server registered through the hub (`Options.hub`); its state is the last snapshot it sent */
+export interface RemoteClientManager {
+  snapshot: ClientManagerSnapshot
+  /** Call a client function of one of its tabs */
+  call: (clientId: string, method: string, args: unknown[]) => Promise<unknown>
+  runTaskAction: (action: TaskAction, args: unknown[]) => Promise<unknown>
+  /** Drop tasks handed out by `getPendingTasks` from its queue */
+  dropPendingTasks: (taskIds: string[]) => void
+}
+
+/** Snapshot written to the task storage on every queue/history change. */
+interface PersistedTaskState {
+  taskQueue: PendingTask[]
+  taskHistory: TaskHistory[]
+  completionApprovals: Array<[string, { taskId: string, expiresAt: number }]>
+  /** URL of each client referenced by an open task, used to remap ids after a restart. */
+  sourceClientUrls: Record<string, string>
+}
+
+const TASK_STATE_KEY = 'tasks.json';
+/** How long a disconnected tab keeps its id reserved for a reload to reattach. */
+const DETACHED_CLIENT_TTL = 30 * 60 * 1000;
+/** How long tool calls wait for a reloading tab to reconnect. */
+const REATTACH_TIMEOUT = 5 * 1000;
+const CLIENT_ID_PATTERN = /^c_[\w-]{1,64}$/;
+/** Statuses each status may change to; `cancelled` is final */
+const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  pending: ['in_progress', 'cancelled'],
+  in_progress: ['pending', 'completed', 'failed', 'cancelled'],
+  completed: ['pending'],
+  failed: ['pending'],
+  cancelled: [],
+};
+const AGENT: TaskActor = { by: 'agent' };
+/** Fields a tab may set about itself; ids, times and the app are the server's */
+const REPORTED_CLIENT_INFO_KEYS: Record<keyof ReportedClientInfo, true> = {
+  url: true,
+  title: true,
+  userAgent: true,
+  viewport: true,
+  devicePixelRatio: true,
+  colorScheme: true,
+  language: true,
+  visibility: true,
+  focused: true,
+  framework: true,
+};
+
+/**
+ * - `clientsChanged`: a client connected, disconnected or updated its info
+ * - `tasksChanged`: the pending queue or the task history changed
+ */
+export type ClientManagerEvent = 'clientsChanged' | 'tasksChanged';
+
 export class ClientManager {
   private clients = new Map<string, ClientConnection>();
   private taskQueue: PendingTask[] = [];
@@ -16,42 +123,331 @@ export class ClientManager {
   private readonly maxTaskHistory = 1000;
   /** One-time approval tokens for MCP complete_task (key = token). */
   private completionApprovals = new Map<string, { taskId: string, expiresAt: number }>();
+  private taskStorage: Storage | null = null;
+  private persistQueue: Promise<void> = Promise.resolve();
+  /** Restored client ids (key) whose tab has not reconnected yet, with the URL it was on. */
+  private orphanedClients = new Map<string, string>();
+  /** Tabs that disconnected (e.g. reloading) and may come back with the same id, with when they left. */
+  private detachedClients = new Map<string, { info: ClientInfo, detachedAt: number }>();
+  /** Dev servers registered with this one as MCP hub, by connection id. */
+  private remotes = new Map<string, RemoteClientManager>();
+  /** Keeps client and task ids of apps sharing a hub apart, e.g. `c_x1y2z3_1` */
+  private idScope = '';
+  private project: ProjectInfo | null = null;
+  readonly events: Emitter<Record<ClientManagerEvent, void>> = mitt<Record<ClientManagerEvent, void>>();
+
+  /** Tag every client with the app this dev server serves */
+  setProject(project: ProjectInfo): void {
+    this.project = project;
+  }
+
+  /** Prefix new client and task ids with `scope`; call before the first tab connects */
+  setIdScope(scope: string): void {
+    this.idScope = scope
+      ? `${scope}_`
+      : '';
+  }
 
   generateClientId(): string {
-    return uniqueId('c_');
+    this.pruneDetachedClients();
+    let id = uniqueId(`c_${this.idScope}`);
+    while (this.clients.has(id) || this.orphanedClients.has(id) || this.detachedClients.has(id)) {
+      id = uniqueId(`c_${this.idScope}`);
+    }
+    return id;
   }
 
+  /**
+   * Id for a new connection: the one the tab kept from an earlier connection (sessionStorage), when it is
+   * well-formed and not held by another live tab (a duplicated tab copies sessionStorage), or a fresh one
+   * A reloaded tab may connect before its old socket is gone; the id is handed over once that socket is closing
+   */
+  resolveClientId(requested?: string | null): string {
+    if (
+      requested
+      && CLIENT_ID_PATTERN.test(requested)
+      && requested.startsWith(`c_${this.idScope}`)
+    ) {
+      const holder = this.clients.get(requested)?.ws;
+      if (!this.clients.has(requested) || (holder && holder.readyState >= holder.CLOSING)) {
+        return requested;
+      }
+    }
+    return this.generateClientId();
+  }
+
+  private pruneDetachedClients(): void {
+    const expired = Date.now() - DETACHED_CLIENT_TTL;
+    for (const [clientId, { detachedAt }] of this.detachedClients) {
+      if (detachedAt < expired) {
+        this.detachedClients.delete(clientId);
+      }
+    }
+  }
+
+  /** Task ids must not collide with restored history (uniqueId restarts at 1 per process). */
+  generateTaskId(): string {
+    let id = uniqueId(`task_${this.idScope}`);
+    while (this.taskHistory.some(t => t.id === id)) {
+      id = uniqueId(`task_${this.idScope}`);
+    }
+    return id;
+  }
+
+  /**
+   * Persist the task queue, history and approvals to `storage` and restore any state
+   * saved by a previous dev-server process. Restored open tasks keep their original
+   * `sourceClient` until a tab on the same URL reconnects, then get remapped to it.
+   */
+  async attachTaskStorage(storage: Storage): Promise<void> {
+    this.taskStorage = storage;
+    let state: PersistedTaskState | null = null;
+    try {
+      state = await storage.getItem<PersistedTaskState>(TASK_STATE_KEY);
+    }
+    catch (error) {
+      console.error('[unplugin-devpilot] Failed to restore tasks:', error);
+    }
+    if (!state) {
+      return;
+    }
+
+    const restoredIds = new Set(this.taskHistory.map(t => t.id));
+    this.taskQueue.push(...(state.taskQueue || []).filter(t => !restoredIds.has(t.id)));
+    // MCP sessions do not survive a restart, so neither do their claims
+    this.taskHistory.push(...(state.taskHistory || [])
+      .filter(t => !restoredIds.has(t.id))
+      .map(({ claimedBy: _, ...task }) => task));
+    const now = Date.now();
+    for (const [token, entry] of state.completionApprovals || []) {
+      if (entry.expiresAt > now) {
+        this.completionApprovals.set(token, entry);
+      }
+    }
+    for (const [clientId, url] of Object.entries(state.sourceClientUrls || {})) {
+      if (!this.clients.has(clientId)) {
+        this.orphanedClients.set(clientId, url);
+      }
+    }
+    this.notifyAllClients();
+  }
+
+  /** Resolve once every scheduled write has reached the task storage. */
+  flushTaskStorage(): Promise<void> {
+    return this.persistQueue;
+  }
+
+  private onTasksChanged(): void {
+    this.events.emit('tasksChanged');
+    this.persistTasks();
+  }
+
+  private persistTasks(): void {
+    const storage = this.taskStorage;
+    if (!storage) {
+      return;
+    }
+    const sourceClientUrls: Record<string, string> = {};
+    for (const task of this.taskHistory) {
+      if (task.status !== 'pending' && task.status !== 'in_progress') {
+        continue;
+      }
+      const url = this.clients.get(task.sourceClient)?.info.url || this.orphanedClients.get(task.sourceClient);
+      if (url) {
+        sourceClientUrls[task.sourceClient] = url;
+      }
+    }
+    const state: PersistedTaskState = {
+      taskQueue: this.taskQueue,
+      taskHistory: this.taskHistory,
+      completionApprovals: Array.from(this.completionApprovals.entries()),
+      sourceClientUrls,
+    };
+    // Serialize now so later mutations don't leak into this write; chain writes to keep them ordered
+    const snapshot = JSON.parse(JSON.stringify(state)) as PersistedTaskState;
+    this.persistQueue = this.persistQueue
+      .then(() => storage.setItem(TASK_STATE_KEY, snapshot))
+      .catch((error) => {
+        console.error('[unplugin-devpilot] Failed to persist tasks:', error);
+      });
+  }
+
+  /**
+   * Hand restored tasks of a disconnected tab over to the client that reconnected on the same URL.
+   */
+  private remapOrphanedClient(clientId: string, url: string): void {
+    for (const [orphanId, orphanUrl] of this.orphanedClients) {
+      if (orphanUrl !== url) {
+        continue;
+      }
+      this.orphanedClients.delete(orphanId);
+      for (const task of this.taskQueue) {
+        if (task.sourceClient === orphanId) {
+          task.sourceClient = clientId;
+        }
+      }
+      for (const task of this.taskHistory) {
+        if (task.sourceClient === orphanId) {
+          task.sourceClient = clientId;
+        }
+      }
+      this.onTasksChanged();
+      return;
+    }
+  }
+
+  /**
+   * Register a connection; a tab reconnecting with its previous id reattaches to that logical client,
+   * so its tasks, logs and the id MCP callers hold keep working
+   */
   addClient(clientId: string, ws: WebSocket, rpc: BirpcReturn<ClientFunctions, ServerFunctions>): ClientInfo {
     const now = Date.now();
+    // A connection taking over the id from a live socket of the same tab keeps its info too
+    const previous = this.clients.get(clientId)?.info ?? this.detachedClients.get(clientId)?.info;
     const info: ClientInfo = {
-      clientId,
       url: '',
       title: '',
       userAgent: '',
+      // What the tab reported before reloading, until it reports again
+      ...previous,
+      clientId,
       connectedAt: now,
       lastActiveAt: now,
       active: true,
+      project: this.project?.name,
+      root: this.project?.root,
+      bundler: this.project?.bundler,
     };
-    this.clients.set(clientId, { ws, info, rpc });
+    this.detachedClients.delete(clientId);
+    // A tab restored after a dev-server restart already owns its tasks
+    this.orphanedClients.delete(clientId);
+    // Namespaced methods are not part of ClientFunctions, so call them untyped; the proxy restores the types
+    const call = rpc.$call as (method: string, ...args: unknown[]) => Promise<unknown>;
+    this.clients.set(clientId, {
+      ws,
+      info,
+      rpc,
+      plugin: namespace => createPluginRpcProxy(namespace, (method, args) => call(method, ...args)),
+    });
+    this.events.emit('clientsChanged');
     return info;
   }
 
-  removeClient(clientId: string): void {
-    this.clients.delete(clientId);
+  /**
+   * @param ws - Only remove the client while this socket still holds its id, not after a reload took it over
+   */
+  removeClient(clientId: string, ws?: WebSocket): void {
+    const client = this.clients.get(clientId);
+    if (client && (!ws || client.ws === ws)) {
+      this.clients.delete(clientId);
+      this.detachedClients.set(clientId, { info: client.info, detachedAt: Date.now() });
+      this.events.emit('clientsChanged');
+    }
   }
 
-  updateClientInfo(clientId: string, update: Partial<Omit<ClientInfo, 'clientId' | 'connectedAt'>>): void {
+  /** Last known info of a tab that disconnected and has not reattached yet. */
+  getDetachedClient(clientId: string): ClientInfo | undefined {
+    const detached = this.detachedClients.get(clientId);
+    if (detached) {
+      return { ...detached.info, active: false };
+    }
+    for (const remote of this.remotes.values()) {
+      const info = remote.snapshot.detachedClients.find(c => c.clientId === clientId);
+      if (info) {
+        return info;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The connection for `clientId`, waiting briefly when the tab is reloading and expected to reattach
+   */
+  async waitForClient<T extends Record<string, any> = object>(
+    clientId: string,
+    timeout: number = REATTACH_TIMEOUT,
+  ): Promise<ClientConnection<T> | undefined> {
+    const current = this.getClient<T>(clientId);
+    if (current || !this.detachedClients.has(clientId)) {
+      // A reloading tab of another app is waited for by its own dev server
+      return current ?? this.getRemoteClient<T>(clientId, true);
+    }
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onChange = (): void => {
+        const client = this.getClient<T>(clientId);
+        if (client) {
+          clearTimeout(timer);
+          this.events.off('clientsChanged', onChange);
+          resolve(client);
+        }
+      };
+      timer = setTimeout(() => {
+        this.events.off('clientsChanged', onChange);
+        resolve(undefined);
+      }, timeout);
+      this.events.on('clientsChanged', onChange);
+    });
+  }
+
+  /**
+   * Merge what a tab reports about itself; other fields in `update` are ignored
+   */
+  updateClientInfo(clientId: string, update: Partial<ReportedClientInfo>): void {
     const client = this.clients.get(clientId);
     if (client) {
-      Object.assign(client.info, update, { lastActiveAt: Date.now() });
+      const reported = Object.entries(update).filter(([key]) => Object.hasOwn(REPORTED_CLIENT_INFO_KEYS, key));
+      Object.assign(client.info, Object.fromEntries(reported), { lastActiveAt: Date.now() });
+      if (update.url && this.orphanedClients.size > 0) {
+        this.remapOrphanedClient(clientId, update.url);
+      }
+      this.events.emit('clientsChanged');
     }
   }
 
   getClient<T extends Record<string, any> = object>(clientId: string): ClientConnection<T> | undefined {
-    return this.clients.get(clientId) as ClientConnection<T> | undefined;
+    return (this.clients.get(clientId) as ClientConnection<T> | undefined) ?? this.getRemoteClient<T>(clientId);
   }
 
-  getAllClients(): ClientInfo[] {
+  /**
+   * Connection to a tab of another dev server registered through the hub, forwarding calls to that dev server
+   * @param detached - Also accept a tab that is reloading there
+   */
+  private getRemoteClient<T extends Record<string, any>>(
+    clientId: string,
+    detached = false,
+  ): ClientConnection<T> | undefined {
+    for (const remote of this.remotes.values()) {
+      const { clients, detachedClients } = remote.snapshot;
+      const info = clients.find(c => c.clientId === clientId)
+        ?? (detached
+          ? detachedClients.find(c => c.clientId === clientId)
+          : undefined);
+      if (!info) {
+        continue;
+      }
+      const call = (method: string, args: unknown[]): Promise<unknown> => remote.call(clientId, method, args);
+      const rpc = new Proxy({}, {
+        get(_, prop) {
+          // Keep the proxy from looking like a thenable when awaited
+          if (typeof prop !== 'string' || prop === 'then') {
+            return undefined;
+          }
+          return prop === '$call'
+            ? (method: string, ...args: unknown[]) => call(method, args)
+            : (...args: unknown[]) => call(prop, args);
+        },
+      }) as ClientConnection<T>['rpc'];
+      return {
+        info,
+        rpc,
+        plugin: namespace => createPluginRpcProxy(namespace, call),
+      };
+    }
+    return undefined;
+  }
+
+  private getLocalClients(): ClientInfo[] {
     const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
     return Array.from(this.clients.values()).map((c) => {
       return {
@@ -61,6 +457,40 @@ export class ClientManager {
     });
   }
 
+  /** Tabs of this dev server and of every dev server registered with it as MCP hub */
+  getAllClients(): ClientInfo[] {
+    const clients = this.getLocalClients();
+    for (const remote of this.remotes.values()) {
+      clients.push(...remote.snapshot.clients);
+    }
+    return clients;
+  }
+
+  /**
+   * Add, update or (with `null`) remove a dev server registered with this one as MCP hub
+   */
+  setRemote(id: string, remote: RemoteClientManager | null): void {
+    if (remote) {
+      this.remotes.set(id, remote);
+    }
+    else if (!this.remotes.delete(id)) {
+      return;
+    }
+    this.events.emit('clientsChanged');
+    this.events.emit('tasksChanged');
+  }
+
+  /** State of this dev server only, for the hub it registered with */
+  getSnapshot(): ClientManagerSnapshot {
+    this.pruneDetachedClients();
+    return {
+      clients: this.getLocalClients(),
+      detachedClients: Array.from(this.detachedClients.values(), ({ info }) => ({ ...info, active: false })),
+      pendingTasks: this.peekPendingTasks(),
+      taskHistory: [...this.taskHistory],
+    };
+  }
+
   /**
    * Find clients by URL pattern or other filters
    */
@@ -91,7 +521,7 @@ export class ClientManager {
         }
       }
 
-      return true;
+      return matchesClientMetadata(client, filter);
     });
   }
 
@@ -125,22 +555,75 @@ export class ClientManager {
 
     // Keep history size manageable
     if (this.taskHistory.length > this.maxTaskHistory) {
+      const dropped = this.taskHistory.slice(0, -this.maxTaskHistory);
       this.taskHistory = this.taskHistory.slice(-this.maxTaskHistory);
+      const screenshots = this.getScreenshotStorage();
+      for (const old of dropped.filter(t => t.screenshot)) {
+        screenshots.removeItem(old.id).catch(() => {});
+      }
     }
 
+    this.onTasksChanged();
     this.notifyAllClients();
   }
 
-  getPendingTasks(clear = true): PendingTask[] {
-    const tasks = [...this.taskQueue];
+  /** Screenshots live next to the tasks so they persist together; plugin storage when tasks are kept in memory */
+  private getScreenshotStorage(): Storage {
+    return this.taskStorage
+      ? prefixStorage(this.taskStorage, TASK_SCREENSHOT_NAMESPACE)
+      : getPluginStorage(TASK_SCREENSHOT_NAMESPACE);
+  }
+
+  /** Keep the image of a task's screenshot apart from the task state written on every change */
+  async saveTaskScreenshot(taskId: string, screenshot: TaskScreenshot): Promise<void> {
+    await this.getScreenshotStorage().setItem(taskId, screenshot);
+  }
+
+  /** Screenshot attached to a task in the pick dialog, while its storage still has it */
+  async getTaskScreenshot(taskId: string): Promise<TaskScreenshot | null> {
+    if (!this.taskHistory.find(t => t.id === taskId)?.screenshot) {
+      return null;
+    }
+    return await this.getScreenshotStorage().getItem<TaskScreenshot>(taskId);
+  }
+
+  /**
+   * Pending tasks of every app sharing this MCP hub, most urgent first unless `filter.sortBy` says otherwise
+   * @param clear - Remove the returned tasks from their queues
+   */
+  getPendingTasks(clear = true, filter?: PendingTaskFilter): PendingTask[] {
+    const all = [...this.taskQueue];
+    for (const remote of this.remotes.values()) {
+      all.push(...remote.snapshot.pendingTasks);
+    }
+    const tasks = filterPendingTasks(all, filter);
     if (clear) {
-      this.taskQueue = [];
-      this.notifyAllClients();
+      const ids = new Set(tasks.map(t => t.id));
+      for (const remote of this.remotes.values()) {
+        const { pendingTasks } = remote.snapshot;
+        if (pendingTasks.some(t => ids.has(t.id))) {
+          remote.dropPendingTasks(pendingTasks.filter(t => ids.has(t.id)).map(t => t.id));
+          remote.snapshot.pendingTasks = pendingTasks.filter(t => !ids.has(t.id));
+        }
+      }
+      this.dropPendingTasks([...ids]);
     }
     return tasks;
   }
 
-  /** Snapshot of the queue without removing tasks (for browser UI). */
+  /** Remove tasks from the queue without claiming them, as `getPendingTasks(true)` does for the hub */
+  dropPendingTasks(taskIds: string[]): void {
+    const ids = new Set(taskIds);
+    const remaining = this.taskQueue.filter(t => !ids.has(t.id));
+    if (remaining.length === this.taskQueue.length) {
+      return;
+    }
+    this.taskQueue = remaining;
+    this.onTasksChanged();
+    this.notifyAllClients();
+  }
+
+  /** Snapshot of this dev server's queue without removing tasks (for browser UI). */
   peekPendingTasks(): PendingTask[] {
     return [...this.taskQueue];
   }
@@ -149,30 +632,199 @@ export class ClientManager {
     return this.taskQueue.length;
   }
 
-  getTaskDashboard(): { pending: PendingTask[], inProgress: TaskHistory[] } {
+  getTaskDashboard(): TaskDashboard {
     return {
       pending: this.peekPendingTasks(),
-      inProgress: this.getTaskHistory({ status: 'in_progress', limit: 50 }),
+      inProgress: filterTaskHistory(this.taskHistory, { status: 'in_progress', limit: 50 }),
+      finished: this.taskHistory
+        .filter(t => t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled')
+        .sort((a, b) => (b.completedAt ?? b.timestamp) - (a.completedAt ?? a.timestamp))
+        .slice(0, 20),
     };
   }
 
   /**
-   * Remove a task from the queue and mark it in progress in history.
+   * Change the status of a task if `TASK_TRANSITIONS` allows it, keeping the queue in sync,
+   * recording who did it and telling every tab
    */
-  claimTask(taskId: string): { ok: true, task: PendingTask } | { ok: false, error: string } {
-    const idx = this.taskQueue.findIndex(t => t.id === taskId);
-    if (idx === -1) {
-      return { ok: false, error: 'Task not in queue (already claimed or invalid id)' };
+  private transitionTask(
+    taskId: string,
+    to: TaskStatus,
+    actor: TaskActor,
+    reason?: string,
+    result?: Record<string, any>,
+  ): { ok: true, task: TaskHistory } | { ok: false, error: string } {
+    const task = this.taskHistory.find(t => t.id === taskId);
+    if (!task) {
+      return { ok: false, error: 'Unknown task id' };
+    }
+    const from = task.status;
+    if (!TASK_TRANSITIONS[from].includes(to)) {
+      return { ok: false, error: `Task is ${from} and cannot become ${to}` };
+    }
+    const at = Date.now();
+    task.status = to;
+    task.transitions = [...task.transitions ?? [], { ...actor, from, to, at, ...(reason && { reason }) }];
+    if (from === 'pending') {
+      this.taskQueue = this.taskQueue.filter(t => t.id !== taskId);
+    }
+    if (to === 'in_progress' && actor.sessionId) {
+      task.claimedBy = actor.sessionId;
     }
-    const [task] = this.taskQueue.splice(idx, 1);
-    const hist = this.taskHistory.find(t => t.id === taskId);
-    if (hist && hist.status === 'pending') {
-      hist.status = 'in_progress';
+    if (to === 'pending') {
+      delete task.claimedBy;
+      delete task.completedAt;
+      delete task.completedBy;
+      delete task.result;
+      const { id, sourceClient, element, elements, region, screenshot, userNote, timestamp, priority, labels } = task;
+      this.taskQueue.push({
+        id,
+        sourceClient,
+        element,
+        elements,
+        region,
+        screenshot,
+        userNote,
+        timestamp,
+        priority,
+        labels,
+        ...(reason && { reopenReason: reason }),
+      });
     }
+    else if (to !== 'in_progress') {
+      task.completedAt = at;
+      task.completedBy = actor.clientId ?? (actor.by === 'agent'
+        ? 'mcp'
+        : 'browser');
+      task.result = result;
+    }
+    this.onTasksChanged();
     this.notifyAllClients();
     return { ok: true, task };
   }
 
+  /**
+   * Tasks claimed by an MCP session are off limits to agents of other sessions
+   * Callers without a session (the in-process API) are trusted
+   */
+  private checkClaim(taskId: string, actor: TaskActor): { ok: false, error: string } | null {
+    const claimedBy = this.taskHistory.find(t => t.id === taskId)?.claimedBy;
+    return claimedBy && actor.by === 'agent' && actor.sessionId && actor.sessionId !== claimedBy
+      ? { ok: false, error: 'Task was claimed by another MCP session' }
+      : null;
+  }
+
+  /**
+   * Remove a task from the queue and mark it in progress in history, owned by the MCP session of `actor`.
+   */
+  claimTask(taskId: string, actor: TaskActor = AGENT): { ok: true, task: PendingTask } | { ok: false, error: string } {
+    const task = this.taskQueue.find(t => t.id === taskId);
+    if (!task) {
+      return { ok: false, error: 'Task not in queue (already claimed or invalid id)' };
+    }
+    const r = this.transitionTask(taskId, 'in_progress', actor);
+    return r.ok
+      ? { ok: true, task }
+      : r;
+  }
+
+  /**
+   * Unlock a task claimed by `sessionId`; the task stays in progress for any session to finish or release
+   */
+  dropClaim(taskId: string, sessionId: string): void {
+    const task = this.taskHistory.find(t => t.id === taskId);
+    if (task?.claimedBy === sessionId) {
+      delete task.claimedBy;
+      this.onTasksChanged();
+      this.notifyAllClients();
+    }
+  }
+
+  /**
+   * Unlock every task, here or on a hub member, claimed by an MCP session that was closed
+   */
+  async dropSessionClaims(sessionId: string): Promise<void> {
+    const histories = [this.taskHistory, ...Array.from(this.remotes.values(), r => r.snapshot.taskHistory)];
+    const taskIds = histories.flat().filter(t => t.claimedBy === sessionId).map(t => t.id);
+    await Promise.all(taskIds.map(id => this.runTaskAction('dropClaim', id, sessionId)));
+  }
+
+  /**
+   * MCP: give up on an in-progress task, e.g. when it cannot be done as asked.
+   */
+  failTask(taskId: string, reason?: string, actor: TaskActor = AGENT): { ok: true } | { ok: false, error: string } {
+    const refusal = this.checkClaim(taskId, actor);
+    if (refusal) {
+      return refusal;
+    }
+    const r = this.transitionTask(taskId, 'failed', actor, reason, { error: reason });
+    if (!r.ok) {
+      return r;
+    }
+    this.notifyTaskCompleted(taskId);
+    return { ok: true };
+  }
+
+  /**
+   * MCP: put an in-progress task back in the queue for another agent or a later attempt.
+   */
+  releaseTask(taskId: string, reason?: string, actor: TaskActor = AGENT): { ok: true } | { ok: false, error: string } {
+    const refusal = this.checkClaim(taskId, actor);
+    if (refusal) {
+      return refusal;
+    }
+    // Reopening finished tasks is up to the developer (`reopenTask`)
+    const status = this.taskHistory.find(t => t.id === taskId)?.status;
+    if (status && status !== 'in_progress') {
+      return { ok: false, error: 'Only in-progress tasks can be released' };
+    }
+    const r = this.transitionTask(taskId, 'pending', actor, reason);
+    return r.ok
+      ? { ok: true }
+      : r;
+  }
+
+  /**
+   * Browser-only: reject a completed or failed task and put it back in the queue.
+   */
+  reopenTask(taskId: string, reason?: string, clientId?: string): { ok: true } | { ok: false, error: string } {
+    const task = this.taskHistory.find(t => t.id === taskId);
+    if (task?.status !== 'completed' && task?.status !== 'failed') {
+      return { ok: false, error: 'Only completed or failed tasks can be reopened' };
+    }
+    const r = this.transitionTask(taskId, 'pending', { by: 'human', clientId }, reason?.trim() || undefined);
+    return r.ok
+      ? { ok: true }
+      : r;
+  }
+
+  /**
+   * Browser-only: withdraw a pending or in-progress task.
+   */
+  cancelTask(taskId: string, clientId?: string): { ok: true } | { ok: false, error: string } {
+    const r = this.transitionTask(taskId, 'cancelled', { by: 'human', clientId });
+    return r.ok
+      ? { ok: true }
+      : r;
+  }
+
+  /**
+   * Run a task mutation on the dev server that owns the task: this one, or one registered with it as MCP hub
+   */
+  async runTaskAction<K extends TaskAction>(
+    action: K,
+    taskId: string,
+    ...args: TaskActionArgs<K>
+  ): Promise<ReturnType<ClientManager[K]>> {
+    for (const remote of this.remotes.values()) {
+      if (remote.snapshot.taskHistory.some(t => t.id === taskId)) {
+        return await remote.runTaskAction(action, [taskId, ...args]) as ReturnType<ClientManager[K]>;
+      }
+    }
+    const run = this[action] as (...params: unknown[]) => ReturnType<ClientManager[K]>;
+    return run.call(this, taskId, ...args);
+  }
+
   /**
    * Browser-only: create a one-time token so the developer can paste it to the agent for complete_task.
    */
@@ -183,6 +835,7 @@ export class ClientManager {
     }
     const token = uniqueId('appr_');
     this.completionApprovals.set(token, { taskId, expiresAt: Date.now() + 10 * 60 * 1000 });
+    this.onTasksChanged();
     return { token };
   }
 
@@ -193,6 +846,7 @@ export class ClientManager {
     taskId: string,
     token: string,
     result?: Record<string, any>,
+    actor: TaskActor = AGENT,
   ): { ok: true } | { ok: false, error: string } {
     const entry = this.completionApprovals.get(token);
     if (!entry) {
@@ -200,6 +854,7 @@ export class ClientManager {
     }
     if (entry.expiresAt < Date.now()) {
       this.completionApprovals.delete(token);
+      this.onTasksChanged();
       return { ok: false, error: 'Approval token expired; ask the developer to issue a new one in the Tasks panel' };
     }
     if (entry.taskId !== taskId) {
@@ -209,74 +864,156 @@ export class ClientManager {
     if (!task || task.status !== 'in_progress') {
       return { ok: false, error: 'Task is not in progress' };
     }
+    const refusal = this.checkClaim(taskId, actor);
+    if (refusal) {
+      return refusal;
+    }
     this.completionApprovals.delete(token);
-    task.status = 'completed';
-    task.completedAt = Date.now();
-    task.completedBy = 'mcp';
-    task.result = result;
+    this.transitionTask(taskId, 'completed', actor, undefined, result);
     this.notifyTaskCompleted(taskId);
     return { ok: true };
   }
 
   /**
-   * Get task history with optional filters
+   * MCP: ask the developer about an in-progress task; the question shows up in the browser Tasks panel.
    */
-  getTaskHistory(filter?: {
-    clientId?: string
-    status?: TaskHistory['status']
-    limit?: number
-  }): TaskHistory[] {
-    let history = [...this.taskHistory];
+  askTaskQuestion(
+    taskId: string,
+    question: string,
+    actor: TaskActor = AGENT,
+  ): { ok: true, questionId: string } | { ok: false, error: string } {
+    const task = this.taskHistory.find(t => t.id === taskId);
+    if (!task || task.status !== 'in_progress') {
+      return { ok: false, error: 'Task is not in progress; claim it first' };
+    }
+    const refusal = this.checkClaim(taskId, actor);
+    if (refusal) {
+      return refusal;
+    }
+    const comment = addTaskComment(task, { author: 'agent', text: question });
+    this.onTasksChanged();
+    this.notifyAllClients();
+    return { ok: true, questionId: comment.id };
+  }
 
-    if (filter?.clientId) {
-      history = history.filter(t => t.sourceClient === filter.clientId);
+  /**
+   * Browser-only: the developer's answer to a question of `askTaskQuestion`.
+   */
+  answerTaskQuestion(
+    taskId: string,
+    questionId: string,
+    answer: string,
+  ): { ok: true } | { ok: false, error: string } {
+    const task = this.taskHistory.find(t => t.id === taskId);
+    const comments = task?.comments ?? [];
+    if (!task || !comments.some(c => c.id === questionId && c.author === 'agent')) {
+      return { ok: false, error: 'No question with this id on the task' };
+    }
+    if (comments.some(c => c.inReplyTo === questionId)) {
+      return { ok: false, error: 'Question already answered' };
     }
+    if (!answer.trim()) {
+      return { ok: false, error: 'Answer is empty' };
+    }
+    addTaskComment(task, { author: 'human', text: answer.trim(), inReplyTo: questionId });
+    this.onTasksChanged();
+    this.notifyAllClients();
+    return { ok: true };
+  }
 
-    if (filter?.status) {
-      history = history.filter(t => t.status === filter.status);
+  /**
+   * The answer to a question of `askTaskQuestion`, waiting for the developer when there is none yet
+   * @param signal - Stops waiting early, e.g. when the MCP request is cancelled
+   * @returns `undefined` when the wait times out or is aborted, or the task is no longer in progress
+   */
+  async waitForTaskAnswer(
+    taskId: string,
+    questionId: string,
+    timeout: number,
+    signal?: AbortSignal,
+  ): Promise<TaskComment | undefined> {
+    const check = (): TaskComment | null | undefined => {
+      const task = this.getTask(taskId);
+      const answer = task?.comments?.find(c => c.inReplyTo === questionId);
+      if (answer) {
+        return answer;
+      }
+      return task?.status === 'in_progress'
+        ? null
+        : undefined;
+    };
+    const current = check();
+    if (current !== null || signal?.aborted) {
+      return current ?? undefined;
     }
+    const events = this.events;
+    return new Promise((resolve) => {
+      const onChange = (): void => {
+        const result = check();
+        if (result !== null) {
+          finish(result);
+        }
+      };
+      const onAbort = (): void => finish(undefined);
+      const timer = setTimeout(onAbort, timeout);
+      function finish(result: TaskComment | undefined): void {
+        clearTimeout(timer);
+        events.off('tasksChanged', onChange);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      }
+      events.on('tasksChanged', onChange);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
 
-    if (filter?.limit) {
-      history = history.slice(-filter.limit);
+  /**
+   * Get task history of every app sharing this MCP hub with optional filters
+   */
+  getTaskHistory(filter?: TaskHistoryFilter): TaskHistory[] {
+    if (this.remotes.size === 0) {
+      return filterTaskHistory(this.taskHistory, filter);
     }
+    const history = [...this.taskHistory];
+    for (const remote of this.remotes.values()) {
+      history.push(...remote.snapshot.taskHistory);
+    }
+    return filterTaskHistory(history.sort((a, b) => a.timestamp - b.timestamp), filter);
+  }
 
-    return history;
+  getTask(taskId: string): TaskHistory | undefined {
+    const local = this.taskHistory.find(t => t.id === taskId);
+    if (local) {
+      return local;
+    }
+    for (const remote of this.remotes.values()) {
+      const task = remote.snapshot.taskHistory.find(t => t.id === taskId);
+      if (task) {
+        return task;
+      }
+    }
+    return undefined;
   }
 
   /**
-   * Mark a task as in progress
+   * Mark a pending task as in progress
    */
   markTaskInProgress(taskId: string, clientId: string): void {
-    const task = this.taskHistory.find(t => t.id === taskId);
-    if (task && task.status === 'pending') {
-      task.status = 'in_progress';
-    }
+    this.transitionTask(taskId, 'in_progress', { by: 'agent', clientId });
   }
 
   /**
-   * Mark a task as completed
+   * Mark an in-progress task as completed, without the approval `completeTaskWithApproval` requires
    */
   markTaskCompleted(taskId: string, clientId: string, result?: Record<string, any>): void {
-    const task = this.taskHistory.find(t => t.id === taskId);
-    if (task) {
-      task.status = 'completed';
-      task.completedAt = Date.now();
-      task.completedBy = clientId;
-      task.result = result;
-    }
+    this.transitionTask(taskId, 'completed', { by: 'agent', clientId }, undefined, result);
   }
 
   /**
-   * Mark a task as failed
+   * Mark an in-progress task as failed
    */
   markTaskFailed(taskId: string, clientId: string, error?: string): void {
-    const task = this.taskHistory.find(t => t.id === taskId);
-    if (task) {
-      task.status = 'failed';
-      task.completedAt = Date.now();
-      task.completedBy = clientId;
-      task.result = { error };
-    }
+    this.transitionTask(taskId, 'failed', { by: 'agent', clientId }, error, { error });
   }
 
   private notifyAllClients(): void {
@@ -301,4 +1038,96 @@ export class ClientManager {
   }
 }
 
+interface TaskHistoryFilter {
+  clientId?: string
+  status?: TaskHistory['status']
+  limit?: number
+}
+
+function filterPendingTasks(tasks: PendingTask[], filter: PendingTaskFilter = {}): PendingTask[] {
+  const rank = (task: PendingTask): number => TASK_PRIORITIES.indexOf(task.priority ?? 'normal');
+  const labels = filter.labels?.map(l => l.toLowerCase()) ?? [];
+  const result = tasks.filter((task) => {
+    if (filter.minPriority && rank(task) > TASK_PRIORITIES.indexOf(filter.minPriority)) {
+      return false;
+    }
+    const own = task.labels?.map(l => l.toLowerCase()) ?? [];
+    return labels.every(l => own.includes(l));
+  });
+  return filter.sortBy === 'timestamp'
+    ? result.sort((a, b) => a.timestamp - b.timestamp)
+    : result.sort((a, b) => rank(a) - rank(b) || a.timestamp - b.timestamp);
+}
+
+/** Comment ids count up per task, so they stay unique across restarts restoring the thread */
+function addTaskComment(task: TaskHistory, comment: Omit<TaskComment, 'id' | 'timestamp'>): TaskComment {
+  const comments = task.comments ?? [];
+  const added: TaskComment = { id: `cmt_${comments.length + 1}`, timestamp: Date.now(), ...comment };
+  task.comments = [...comments, added];
+  return added;
+}
+
+function filterTaskHistory(tasks: TaskHistory[], filter?: TaskHistoryFilter): TaskHistory[] {
+  let history = [...tasks];
+
+  if (filter?.clientId) {
+    history = history.filter(t => t.sourceClient === filter.clientId);
+  }
+
+  if (filter?.status) {
+    history = history.filter(t => t.status === filter.status);
+  }
+
+  if (filter?.limit) {
+    history = history.slice(-filter.limit);
+  }
+
+  return history;
+}
+
+function sameText(value: string | undefined, expected: string): boolean {
+  return value?.toLowerCase() === expected.toLowerCase();
+}
+
+/** Filters on what the tab and its dev server report; a client that did not report a filtered field is left out */
+function matchesClientMetadata(client: ClientInfo, filter: ClientDiscoveryFilter): boolean {
+  if (filter.project && !sameText(client.project, filter.project)) {
+    return false;
+  }
+  if (filter.bundler && !sameText(client.bundler, filter.bundler)) {
+    return false;
+  }
+  if (filter.framework && !sameText(client.framework?.name, filter.framework)) {
+    return false;
+  }
+  if (filter.colorScheme && client.colorScheme !== filter.colorScheme) {
+    return false;
+  }
+  if (filter.language) {
+    const language = client.language?.toLowerCase();
+    const expected = filter.language.toLowerCase();
+    if (language !== expected && !language?.startsWith(`${expected}-`)) {
+      return false;
+    }
+  }
+  if (filter.visibility && client.visibility !== filter.visibility) {
+    return false;
+  }
+  if (filter.focused !== undefined && client.focused !== filter.focused) {
+    return false;
+  }
+  const width = client.viewport?.width;
+  if (filter.minViewportWidth !== undefined && !(width !== undefined && width >= filter.minViewportWidth)) {
+    return false;
+  }
+  if (filter.maxViewportWidth !== undefined && !(width !== undefined && width <= filter.maxViewportWidth)) {
+    return false;
+  }
+  const dpr = client.devicePixelRatio;
+  if (filter.minDevicePixelRatio !== undefined && !(dpr !== undefined && dpr >= filter.minDevicePixelRatio)) {
+    return false;
+  }
+  return true;
+}
+
 export const clientManager: ClientManager = new ClientManager();
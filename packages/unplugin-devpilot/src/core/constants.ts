@@ -3,3 +3,29 @@
  * Used by both client and server
  */
 export const WS_PROXY_PATH = '/__devpilot_ws';
+
+/**
+ * WebSocket subprotocol negotiated by the devpilot client
+ * The auth token travels as a second subprotocol: `${WS_AUTH_PROTOCOL_PREFIX}<token>`,
+ * the id the tab kept from an earlier connection as `${WS_CLIENT_PROTOCOL_PREFIX}<clientId>`,
+ * and `WS_RELOAD_PROTOCOL` when that connection belonged to the page this tab just unloaded
+ */
+export const WS_PROTOCOL = 'devpilot';
+export const WS_AUTH_PROTOCOL_PREFIX = 'devpilot.token.';
+export const WS_CLIENT_PROTOCOL_PREFIX = 'devpilot.client.';
+export const WS_RELOAD_PROTOCOL = 'devpilot.reload';
+
+/**
+ * How long an RPC call waits for the other side, in both directions
+ * Below the 60s request timeout of MCP clients, so agents get the RPC error rather than their own timeout
+ */
+export const DEFAULT_RPC_TIMEOUT: number = 30 * 1000;
+
+/**
+ * Task priorities, most urgent first; tasks without one count as `normal`
+ * Used by the pick dialog and by `get_pending_tasks`
+ */
+export const TASK_PRIORITIES = ['urgent', 'high', 'normal', 'low'] as const;
+
+/** Plugin storage namespace of the screenshots attached to tasks, keyed by task id */
+export const TASK_SCREENSHOT_NAMESPACE = 'task-screenshots';
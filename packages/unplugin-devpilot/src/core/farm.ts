@@ -0,0 +1,19 @@
+import type { ReservableServer } from './ws-server';
+
+/** Farm 1 exposes its Node server as `server`, Farm 2 as `httpServer` */
+export interface FarmDevServer {
+  server?: unknown
+  httpServer?: unknown
+}
+
+function isHttpServer(value: unknown): value is ReservableServer {
+  return typeof (value as ReservableServer | undefined)?.on === 'function'
+    && typeof (value as ReservableServer).listeners === 'function';
+}
+
+export function getFarmHttpServer(devServer: FarmDevServer): ReservableServer | undefined {
+  const server = devServer.httpServer ?? devServer.server;
+  return isHttpServer(server)
+    ? server
+    : undefined;
+}
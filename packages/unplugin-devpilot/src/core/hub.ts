@@ -0,0 +1,329 @@
+import type { BirpcReturn } from 'birpc';
+import type { Server, Socket } from 'node:net';
+import type { ClientManager, ClientManagerSnapshot, RemoteClientManager, TaskAction } from './client-manager';
+import type { ProjectInfo } from './types';
+import { createHash } from 'node:crypto';
+import { promises as fs, readFileSync } from 'node:fs';
+import { connect, createServer } from 'node:net';
+import { homedir } from 'node:os';
+import { basename, dirname, join } from 'node:path';
+import process from 'node:process';
+import { createBirpc } from 'birpc';
+import { getAuthToken, setAuthToken } from './auth';
+import { clientManager, TASK_ACTIONS } from './client-manager';
+import { DEFAULT_RPC_TIMEOUT } from './constants';
+import { RpcError } from './rpc-error';
+
+/** Functions of the hub, called by the dev servers registered with it */
+interface HubFunctions {
+  /** Returns the hub's auth token, which the member adopts so agents and tabs need only one */
+  register: (project: ProjectInfo, snapshot: ClientManagerSnapshot) => { token: string }
+  update: (snapshot: ClientManagerSnapshot) => void
+}
+
+/** Functions of a registered dev server, called by the hub */
+interface HubMemberFunctions {
+  callClient: (clientId: string, method: string, args: unknown[]) => Promise<unknown>
+  runTaskAction: (action: TaskAction, args: unknown[]) => unknown
+  dropPendingTasks: (taskIds: string[]) => void
+}
+
+interface SerializedError {
+  name: string
+  message: string
+  code?: RpcError['code']
+  method?: string
+}
+
+/** Attempts to register with a hub that has taken the MCP port but may not listen on its socket yet */
+export const HUB_JOIN_ATTEMPTS: number = 10;
+const JOIN_RETRY_DELAY = 100;
+
+let hubServer: Server | null = null;
+const memberSockets = new Set<Socket>();
+let member: { socket: Socket, dispose: () => void } | null = null;
+
+/** App served from `cwd`: its `package.json` name, or the directory name */
+export function getProjectInfo(cwd: string = process.cwd()): ProjectInfo {
+  let name: string | undefined;
+  try {
+    name = JSON.parse(readFileSync(join(cwd, 'package.json'), 'utf-8')).name;
+  }
+  catch {}
+  return { name: name || basename(cwd), root: cwd };
+}
+
+/** Short id of an app that stays the same across restarts, to keep the client and task ids of apps apart */
+export function getProjectIdScope(project: ProjectInfo): string {
+  return createHash('sha256').update(project.root).digest('hex').slice(0, 6);
+}
+
+/**
+ * Local channel between the hub and the dev servers registered with it, one per MCP port
+ * A Unix socket in a per-user directory (`XDG_RUNTIME_DIR`, or the home directory), or a named pipe on Windows
+ */
+export function getHubSocketPath(mcpPort: number): string {
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\devpilot-hub-${mcpPort}`;
+  }
+  const base = process.env.XDG_RUNTIME_DIR
+    ? join(process.env.XDG_RUNTIME_DIR, 'devpilot')
+    : join(homedir(), '.devpilot');
+  return join(base, `hub-${mcpPort}.sock`);
+}
+
+/**
+ * Whether `dir` is a real directory of the current user that nobody else can enter
+ * Anyone able to place the socket could impersonate the hub, or register and receive its auth token
+ */
+export async function isPrivateDirectory(dir: string): Promise<boolean> {
+  try {
+    const stats = await fs.lstat(dir);
+    return stats.isDirectory() && stats.uid === process.getuid?.() && (stats.mode & 0o077) === 0;
+  }
+  catch {
+    return false;
+  }
+}
+
+function serializeError(_key: string, value: unknown): unknown {
+  if (!(value instanceof Error)) {
+    return value;
+  }
+  const { code, method } = value as Partial<RpcError>;
+  return { name: value.name, message: value.message, code, method } satisfies SerializedError;
+}
+
+/** Restore the error a member rejected with, keeping `isRpcError` working for plugin tools */
+function deserializeError(error: unknown): Error {
+  const { name, message, code, method } = (error ?? {}) as Partial<SerializedError>;
+  if (name === 'RpcError' && code) {
+    return new RpcError(code, message ?? '', method);
+  }
+  return new Error(message ?? String(error));
+}
+
+/** birpc over newline-delimited JSON */
+function createHubRpc<Remote extends object, Local extends object>(
+  socket: Socket,
+  functions: Local,
+): BirpcReturn<Remote, Local> {
+  socket.setEncoding('utf-8');
+  return createBirpc<Remote, Local>(functions, {
+    post: (data) => {
+      socket.write(`${data}\n`);
+    },
+    on: (fn) => {
+      let buffer = '';
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          fn(buffer.slice(0, newline));
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf('\n');
+        }
+      });
+    },
+    serialize: v => JSON.stringify(v, serializeError),
+    deserialize: v => JSON.parse(v),
+    // Calls to tabs are bounded by the member's own RPC timeout
+    timeout: -1,
+  });
+}
+
+function handleMember(socket: Socket, id: string, manager: ClientManager): void {
+  memberSockets.add(socket);
+  let remote: RemoteClientManager | null = null;
+  const rpc = createHubRpc<HubMemberFunctions, HubFunctions>(socket, {
+    register(project, snapshot) {
+      remote = {
+        snapshot,
+        call: (clientId, method, args) => rpc.callClient(clientId, method, args).catch((error) => {
+          throw deserializeError(error);
+        }),
+        runTaskAction: (action, args) => rpc.runTaskAction(action, args),
+        dropPendingTasks: (taskIds) => {
+          rpc.dropPendingTasks.asEvent(taskIds).catch(() => {});
+        },
+      };
+      manager.setRemote(id, remote);
+      console.warn(`[unplugin-devpilot] ${project.name} (${project.root}) joined the MCP hub`);
+      return { token: getAuthToken() };
+    },
+    update(snapshot) {
+      if (remote) {
+        remote.snapshot = snapshot;
+        manager.setRemote(id, remote);
+      }
+    },
+  });
+  socket.on('error', () => socket.destroy());
+  socket.on('close', () => {
+    memberSockets.delete(socket);
+    rpc.$close(new RpcError('disconnected', 'The dev server registered with the MCP hub stopped'));
+    manager.setRemote(id, null);
+  });
+}
+
+function connectToHub(path: string): Promise<Socket | null> {
+  return new Promise((resolve) => {
+    const socket = connect(path);
+    const onError = (): void => resolve(null);
+    socket.once('error', onError);
+    socket.once('connect', () => {
+      socket.off('error', onError);
+      resolve(socket);
+    });
+  });
+}
+
+/**
+ * Accept registrations from dev servers of other apps; call once this process owns `mcpPort`
+ */
+export async function startHub(mcpPort: number, manager: ClientManager = clientManager): Promise<void> {
+  if (hubServer) {
+    return;
+  }
+  const path = getHubSocketPath(mcpPort);
+  if (process.platform !== 'win32') {
+    await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+    // `mkdir` leaves an existing directory as it is, whoever made it
+    if (!await isPrivateDirectory(dirname(path))) {
+      console.warn(`[unplugin-devpilot] Not starting the MCP hub: ${dirname(path)} must be a directory owned by you with mode 700`);
+      return;
+    }
+    // Left behind by a hub that crashed; the MCP port being free shows no hub is using it
+    await fs.rm(path, { force: true });
+  }
+  let nextId = 0;
+  const server = createServer(socket => handleMember(socket, `hub_${++nextId}`, manager));
+  hubServer = server;
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(path, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Register with the hub serving `mcpPort`, if there is one
+ * Clients and tasks are sent on every change, and the hub's auth token replaces this process's
+ * @param onLost - Called when the hub goes away, e.g. to take over the MCP port
+ * @param attempts - Retry while a hub that just took the port starts listening
+ * @param timeout - How long a hub that accepted the connection may take to answer the registration
+ * @returns whether this dev server is now registered
+ */
+export async function joinHub(
+  mcpPort: number,
+  project: ProjectInfo,
+  onLost: () => void,
+  attempts: number = 1,
+  manager: ClientManager = clientManager,
+  timeout: number = DEFAULT_RPC_TIMEOUT,
+): Promise<boolean> {
+  const path = getHubSocketPath(mcpPort);
+  // A socket in a directory others can write to may belong to a fake hub
+  const tryConnect = async (): Promise<Socket | null> =>
+    process.platform === 'win32' || await isPrivateDirectory(dirname(path))
+      ? connectToHub(path)
+      : null;
+  let socket = await tryConnect();
+  for (let attempt = 1; !socket && attempt < attempts; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, JOIN_RETRY_DELAY));
+    socket = await tryConnect();
+  }
+  if (!socket) {
+    return false;
+  }
+
+  const rpc = createHubRpc<HubFunctions, HubMemberFunctions>(socket, {
+    async callClient(clientId, method, args) {
+      const client = await manager.waitForClient(clientId);
+      if (!client) {
+        throw new RpcError('disconnected', `Client ${clientId} not found or disconnected`, method);
+      }
+      const call = client.rpc.$call as (method: string, ...args: unknown[]) => Promise<unknown>;
+      return call(method, ...args);
+    },
+    runTaskAction(action, args) {
+      if (!TASK_ACTIONS.includes(action)) {
+        throw new Error(`Unknown task action "${action}"`);
+      }
+      const run = manager[action] as (...params: unknown[]) => unknown;
+      return run.apply(manager, args);
+    },
+    dropPendingTasks(taskIds) {
+      manager.dropPendingTasks(taskIds);
+    },
+  });
+
+  // Coalesce the events of one change (e.g. a task claim changes queue and history) into one update
+  let scheduled = false;
+  const sendSnapshot = (): void => {
+    if (scheduled) {
+      return;
+    }
+    scheduled = true;
+    queueMicrotask(() => {
+      scheduled = false;
+      rpc.update.asEvent(manager.getSnapshot()).catch(() => {});
+    });
+  };
+  const dispose = (): void => {
+    manager.events.off('clientsChanged', sendSnapshot);
+    manager.events.off('tasksChanged', sendSnapshot);
+    rpc.$close();
+  };
+  const current = { socket, dispose };
+  socket.on('error', () => socket!.destroy());
+  socket.on('close', () => {
+    dispose();
+    if (member === current) {
+      member = null;
+      onLost();
+    }
+  });
+
+  // A hung hub would otherwise hold up the dev server forever; closing the socket rejects the call
+  const timer = setTimeout(() => socket!.destroy(), timeout);
+  let token: string;
+  try {
+    ({ token } = await rpc.register(project, manager.getSnapshot()));
+  }
+  catch {
+    socket.destroy();
+    console.warn(`[unplugin-devpilot] The MCP hub on port ${mcpPort} did not accept the registration`);
+    return false;
+  }
+  finally {
+    clearTimeout(timer);
+  }
+  member = current;
+  setAuthToken(token);
+  manager.events.on('clientsChanged', sendSnapshot);
+  manager.events.on('tasksChanged', sendSnapshot);
+  return true;
+}
+
+/**
+ * Leave the hub, or stop being one; dev servers registered here take over the MCP port
+ */
+export async function stopHub(): Promise<void> {
+  if (member) {
+    const { socket, dispose } = member;
+    member = null;
+    dispose();
+    socket.end();
+  }
+  if (hubServer) {
+    const server = hubServer;
+    hubServer = null;
+    for (const socket of memberSockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,107 @@
+import { promises as fs } from 'node:fs';
+import { dirname, join } from 'node:path';
+import process from 'node:process';
+import { getAuthToken, resolveConnectHost } from './auth';
+import { getDefaultPersistDir } from './storage';
+
+export const LOCK_FILE_NAME = 'server.lock';
+
+/**
+ * Written at startup so tools outside the bundler (e.g. the `devpilot-mcp` stdio bridge)
+ * can find the running dev server without knowing which ports it picked
+ */
+export interface DevpilotLockFile {
+  pid: number
+  mcpPort: number
+  wsPort: number
+  /** Host to connect to, derived from `Options.host` */
+  host: string
+  /** Bearer token required by `/mcp` */
+  token: string
+  cwd: string
+  startedAt: number
+}
+
+export function getLockFilePath(cwd: string = process.cwd()): string {
+  return join(getDefaultPersistDir(cwd), LOCK_FILE_NAME);
+}
+
+export async function writeLockFile(server: { mcpPort: number, wsPort: number, host: string }): Promise<void> {
+  const lockPath = getLockFilePath();
+  const content: DevpilotLockFile = {
+    pid: process.pid,
+    mcpPort: server.mcpPort,
+    wsPort: server.wsPort,
+    host: resolveConnectHost(server.host),
+    token: getAuthToken(),
+    cwd: process.cwd(),
+    startedAt: Date.now(),
+  };
+  try {
+    await fs.mkdir(dirname(lockPath), { recursive: true });
+    // Holds the auth token, so keep it private to the current user
+    await fs.writeFile(lockPath, JSON.stringify(content, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  }
+  catch (error) {
+    console.error('[unplugin-devpilot] Failed to write lock file:', error);
+  }
+}
+
+/**
+ * Remove the lock file, but only if it still belongs to this process
+ */
+export async function removeLockFile(): Promise<void> {
+  const lockPath = getLockFilePath();
+  const lock = await readLockFile(lockPath);
+  if (lock && lock.pid !== process.pid) {
+    return;
+  }
+  try {
+    await fs.unlink(lockPath);
+  }
+  catch {
+    // File doesn't exist
+  }
+}
+
+export async function readLockFile(lockPath: string): Promise<DevpilotLockFile | null> {
+  try {
+    const lock = JSON.parse(await fs.readFile(lockPath, 'utf-8')) as DevpilotLockFile;
+    if (typeof lock.mcpPort !== 'number' || typeof lock.pid !== 'number') {
+      return null;
+    }
+    return lock;
+  }
+  catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  }
+  catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Walk up from `startDir` and return the first lock file whose dev server is still running
+ */
+export async function findLockFile(startDir: string = process.cwd()): Promise<DevpilotLockFile | null> {
+  let dir = startDir;
+  while (true) {
+    const lock = await readLockFile(getLockFilePath(dir));
+    if (lock && isProcessAlive(lock.pid)) {
+      return lock;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
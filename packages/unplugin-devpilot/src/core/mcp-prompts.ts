@@ -0,0 +1,97 @@
+import type { ZodRawShapeCompat } from '@modelcontextprotocol/sdk/server/zod-compat.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import type { DevpilotPlugin } from './options';
+import { z } from 'zod';
+import { clientManager } from './client-manager';
+import { AGENT_WORKFLOW_MARKDOWN, readSkillContent, resolvePluginSkillPath } from './skill-content';
+import { getPluginStorage } from './storage';
+
+export interface McpPromptResolved {
+  name: string
+  config: {
+    title?: string
+    description?: string
+    argsSchema?: ZodRawShapeCompat
+  }
+  cb: (args?: Record<string, string | undefined>) => Promise<GetPromptResult>
+}
+
+function textPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{
+      role: 'user',
+      content: { type: 'text', text },
+    }],
+  };
+}
+
+function usagePromptName(namespace: string): string {
+  return `${namespace}/usage`;
+}
+
+function createTriagePrompt(skillNamespaces: string[]): McpPromptResolved {
+  const description = 'Work through the browser task queue: list, claim and complete tasks submitted from the page';
+  return {
+    name: 'devpilot/triage-task',
+    config: {
+      title: 'Triage Task',
+      description,
+      argsSchema: {
+        taskId: z.string().optional().describe('Task to work on; omit to start from the pending queue'),
+      },
+    },
+    async cb(args) {
+      const sections = [AGENT_WORKFLOW_MARKDOWN];
+      if (skillNamespaces.length > 0) {
+        sections.push(`Before calling plugin tools, get the matching usage prompt: ${
+          skillNamespaces.map(ns => `\`${usagePromptName(ns)}\``).join(', ')
+        }.`);
+      }
+      const taskId = args?.taskId;
+      if (taskId) {
+        const task = clientManager.getTask(taskId);
+        sections.push(task
+          ? `## Task ${taskId}\n\n\`\`\`json\n${JSON.stringify(task, null, 2)}\n\`\`\``
+          : `Task ${taskId} was not found. Call get_pending_tasks to see the current queue.`);
+      }
+      return textPrompt(description, sections.join('\n\n'));
+    },
+  };
+}
+
+function createUsagePrompt(namespace: string, skillPath: string): McpPromptResolved {
+  const description = `How to use the ${namespace} tools, from the plugin's skill file`;
+  return {
+    name: usagePromptName(namespace),
+    config: {
+      title: `${namespace} usage`,
+      description,
+    },
+    async cb() {
+      return textPrompt(description, await readSkillContent(skillPath));
+    },
+  };
+}
+
+/**
+ * The core workflow prompt plus one usage prompt per plugin with a `skillModule`
+ */
+export function buildPromptRegistry(plugins: DevpilotPlugin[]): McpPromptResolved[] {
+  const usagePrompts: McpPromptResolved[] = [];
+  const namespaces: string[] = [];
+  for (const plugin of plugins) {
+    try {
+      const ctx = { wsPort: 0, storage: getPluginStorage(plugin.namespace) };
+      const skillPath = resolvePluginSkillPath(plugin, ctx);
+      if (skillPath) {
+        usagePrompts.push(createUsagePrompt(plugin.namespace, skillPath));
+        namespaces.push(plugin.namespace);
+      }
+    }
+    catch (error) {
+      console.error(`[unplugin-devpilot] Failed to resolve skill module for plugin ${plugin.namespace}:`, error);
+    }
+  }
+  return [createTriagePrompt(namespaces), ...usagePrompts];
+}
@@ -1,28 +1,82 @@
-import type { Server } from 'node:http';
+import type { RegisteredPrompt, RegisteredResource, RegisteredResourceTemplate, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AnySchema, ZodRawShapeCompat } from '@modelcontextprotocol/sdk/server/zod-compat.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { McpPromptResolved } from './mcp-prompts';
 import type { DevpilotPlugin } from './options';
-import type { McpToolRegister } from './plugin';
+import type { McpResourceRegister, McpToolRegister, McpToolResolved } from './plugin';
+import { randomUUID } from 'node:crypto';
 import { createServer } from 'node:http';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { normalizeObjectSchema } from '@modelcontextprotocol/sdk/server/zod-compat.js';
+import { toJsonSchemaCompat } from '@modelcontextprotocol/sdk/server/zod-json-schema-compat.js';
+import { isInitializeRequest, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { version } from '../../package.json';
+import { recordAuditEntry } from './audit-log';
+import { getBearerToken, isAllowedHost, isAllowedMcpOrigin, verifyAuthToken } from './auth';
+import { getBuiltinResources, watchBuiltinResources } from './builtin-resources';
 import { getBuiltinTools } from './builtin-tools';
+import { clientManager } from './client-manager';
+import { buildPromptRegistry } from './mcp-prompts';
 import { getPluginStorage } from './storage';
+import { enforceToolPolicy, resolveToolPolicyAction } from './tool-policy';
+
+interface McpSession {
+  server: McpServer
+  transport: StreamableHTTPServerTransport
+  lastActiveAt: number
+  /** GET SSE streams the client holds open; a listening client is active even when it sends nothing */
+  openStreams: number
+  /** Handles of the tools registered on this session's server, by name. */
+  tools: Map<string, RegisteredTool>
+  /** Handles of the resources registered on this session's server, by name. */
+  resources: Map<string, RegisteredResource | RegisteredResourceTemplate>
+  /** Handles of the prompts registered on this session's server, by name. */
+  prompts: Map<string, RegisteredPrompt>
+  /** Resource URIs the client subscribed to via resources/subscribe. */
+  subscriptions: Set<string>
+}
+
+export interface McpToolRegistryDiff {
+  added: string[]
+  removed: string[]
+  changed: string[]
+}
+
+/** Sessions idle for longer than this are closed by the sweeper. */
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL = 60 * 1000;
 
 let httpServer: Server | null = null;
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+let unwatchBuiltinResources: (() => void) | null = null;
+
+const sessions = new Map<string, McpSession>();
 
 // Store plugin server methods
 let mcpRegeisterMethods: Record<string, (() => McpToolRegister)[]> = {};
+let mcpResourceRegisterMethods: Record<string, (() => McpResourceRegister)[]> = {};
+
+/** Builtin + plugin tools, resolved once and shared by every session. */
+let toolRegistry: McpToolResolved[] = buildToolRegistry();
+/** Builtin + plugin resources, shared by every session the same way as tools. */
+let resourceRegistry: McpResourceRegister[] = buildResourceRegistry();
+/** Core workflow and plugin skill prompts, shared by every session the same way as tools. */
+let promptRegistry: McpPromptResolved[] = buildPromptRegistry([]);
 
 /**
  * Register plugin server methods
+ * Live sessions are synced to the new tool set and receive `notifications/tools/list_changed` when it differs
  */
-export function registerPluginMcpRegisterMethods(plugins: DevpilotPlugin[]): void {
+export function registerPluginMcpRegisterMethods(plugins: DevpilotPlugin[]): McpToolRegistryDiff {
   mcpRegeisterMethods = {};
+  mcpResourceRegisterMethods = {};
 
   for (const plugin of plugins) {
+    const ctx = { wsPort: 0, storage: getPluginStorage(plugin.namespace) };
     if (plugin.mcpSetup) {
       try {
-        const ctx = { wsPort: 0, storage: getPluginStorage(plugin.namespace) };
         const mcps = plugin.mcpSetup(ctx);
         mcpRegeisterMethods[plugin.namespace] = mcps;
       }
@@ -30,10 +84,501 @@ export function registerPluginMcpRegisterMethods(plugins: DevpilotPlugin[]): voi
         console.error(`[unplugin-devpilot] Failed to setup mcp servers for plugin ${plugin.namespace}:`, error);
       }
     }
+    if (plugin.mcpResourceSetup) {
+      try {
+        mcpResourceRegisterMethods[plugin.namespace] = plugin.mcpResourceSetup(ctx);
+      }
+      catch (error) {
+        console.error(`[unplugin-devpilot] Failed to setup mcp resources for plugin ${plugin.namespace}:`, error);
+      }
+    }
+  }
+
+  const previous = toolRegistry;
+  toolRegistry = buildToolRegistry();
+  const diff = diffRegistry(previous, toolRegistry, toolSignature);
+  if (hasChanges(diff)) {
+    for (const session of sessions.values()) {
+      syncSessionTools(session, diff);
+    }
+  }
+
+  const previousResources = resourceRegistry;
+  resourceRegistry = buildResourceRegistry();
+  const resourceDiff = diffRegistry(previousResources, resourceRegistry, resourceSignature);
+  if (hasChanges(resourceDiff)) {
+    for (const session of sessions.values()) {
+      syncSessionResources(session, resourceDiff);
+    }
+  }
+
+  const previousPrompts = promptRegistry;
+  promptRegistry = buildPromptRegistry(plugins);
+  const promptDiff = diffRegistry(previousPrompts, promptRegistry, promptSignature);
+  if (hasChanges(promptDiff)) {
+    for (const session of sessions.values()) {
+      syncSessionPrompts(session, promptDiff);
+    }
+  }
+  return diff;
+}
+
+function hasChanges(diff: McpToolRegistryDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+function schemaSignature(schema: ZodRawShapeCompat | AnySchema | undefined): unknown {
+  const normalized = normalizeObjectSchema(schema);
+  if (!normalized) {
+    return null;
+  }
+  try {
+    return toJsonSchemaCompat(normalized);
+  }
+  catch {
+    return Object.keys(schema ?? {});
+  }
+}
+
+/**
+ * Everything an MCP client sees in tools/list; callbacks are excluded since sessions call through the registry
+ */
+function toolSignature(tool: McpToolResolved): string {
+  const { title, description, annotations, _meta, inputSchema, outputSchema } = tool.config;
+  return JSON.stringify({
+    title,
+    description,
+    annotations,
+    _meta,
+    inputSchema: schemaSignature(inputSchema),
+    outputSchema: schemaSignature(outputSchema),
+  });
+}
+
+/**
+ * Everything an MCP client sees in resources/list and resources/templates/list
+ */
+function resourceSignature(resource: McpResourceRegister): string {
+  const { list: _list, ...metadata } = resource.config;
+  return JSON.stringify({ uri: resource.uri, metadata });
+}
+
+function promptSignature(prompt: McpPromptResolved): string {
+  const { title, description, argsSchema } = prompt.config;
+  return JSON.stringify({ title, description, argsSchema: schemaSignature(argsSchema) });
+}
+
+function diffRegistry<T extends { name: string }>(
+  previous: T[],
+  next: T[],
+  signature: (entry: T) => string,
+): McpToolRegistryDiff {
+  const before = new Map(previous.map(entry => [entry.name, signature(entry)]));
+  const after = new Map(next.map(entry => [entry.name, signature(entry)]));
+  const diff: McpToolRegistryDiff = { added: [], removed: [], changed: [] };
+  for (const [name, signature] of after) {
+    if (!before.has(name)) {
+      diff.added.push(name);
+    }
+    else if (before.get(name) !== signature) {
+      diff.changed.push(name);
+    }
+  }
+  for (const name of before.keys()) {
+    if (!after.has(name)) {
+      diff.removed.push(name);
+    }
+  }
+  return diff;
+}
+
+/**
+ * Builtin and plugin tools; tools denied by `toolPolicy` are left out so agents never see them
+ */
+function buildToolRegistry(): McpToolResolved[] {
+  const tools: McpToolResolved[] = [...getBuiltinTools()];
+
+  Object.entries(mcpRegeisterMethods).forEach(([namespace, mcpRegeisters]) => {
+    mcpRegeisters.forEach((mcpRegeister) => {
+      const { name: _name, config, cb } = mcpRegeister();
+      const name = _name.startsWith(`${namespace}/`)
+        ? _name
+        : `${namespace}_${_name}`;
+      tools.push({ name, config, cb } as McpToolResolved);
+    });
+  });
+
+  return tools.filter(tool => resolveToolPolicyAction(tool.name) !== 'deny');
+}
+
+export function getMcpToolRegistry(): McpToolResolved[] {
+  return toolRegistry;
+}
+
+function buildResourceRegistry(): McpResourceRegister[] {
+  const resources: McpResourceRegister[] = [...getBuiltinResources()];
+
+  Object.entries(mcpResourceRegisterMethods).forEach(([namespace, registers]) => {
+    registers.forEach((register) => {
+      const resource = register();
+      resources.push({ ...resource, name: `${namespace}_${resource.name}` });
+    });
+  });
+
+  return resources;
+}
+
+export function getMcpResourceRegistry(): McpResourceRegister[] {
+  return resourceRegistry;
+}
+
+/** Tab a tool call targets: its `clientId` argument, or the tab a `taskId` argument was picked in */
+function resolveAuditClientId(input: Record<string, unknown>): string | undefined {
+  if (typeof input.clientId === 'string') {
+    return input.clientId;
+  }
+  return typeof input.taskId === 'string'
+    ? clientManager.getTask(input.taskId)?.sourceClient
+    : undefined;
+}
+
+function describeToolError(result: CallToolResult): string | undefined {
+  if (!result.isError) {
+    return undefined;
+  }
+  const text = result.content.find(c => c.type === 'text');
+  return text?.type === 'text'
+    ? text.text
+    : 'Tool returned an error';
+}
+
+/**
+ * Every call is checked against `toolPolicy` and recorded in the audit log
+ */
+function registerSessionTool(session: McpSession, tool: McpToolResolved): void {
+  const { name, config } = tool;
+  // Resolve the callback on each call so re-registered plugins take effect without touching the session
+  const cb = (async (...args: Parameters<McpToolResolved['cb']>) => {
+    const current = toolRegistry.find(t => t.name === name) ?? tool;
+    // Tools without an input schema receive only `extra`
+    const extra = args[args.length - 1] as { sessionId?: string };
+    const input = (current.config.inputSchema
+      ? args[0]
+      : {}) as Record<string, unknown>;
+    const startedAt = Date.now();
+    const audit = (error?: string) => recordAuditEntry({
+      timestamp: startedAt,
+      sessionId: extra?.sessionId,
+      tool: name,
+      args: input,
+      clientId: resolveAuditClientId(input),
+      durationMs: Date.now() - startedAt,
+      success: error === undefined,
+      error,
+    });
+
+    const refusal = await enforceToolPolicy(name, input, extra?.sessionId);
+    if (refusal) {
+      audit(refusal);
+      return {
+        isError: true,
+        content: [{ type: 'text' as const, text: refusal }],
+      };
+    }
+    try {
+      const result: CallToolResult = await current.cb(...args);
+      audit(describeToolError(result));
+      return result;
+    }
+    catch (error) {
+      audit(error instanceof Error
+        ? error.message
+        : String(error));
+      throw error;
+    }
+  }) as McpToolResolved['cb'];
+  session.tools.set(name, session.server.registerTool(name, config, cb));
+}
+
+/**
+ * Apply a registry diff to one session; McpServer emits `notifications/tools/list_changed` for each update
+ */
+function syncSessionTools(session: McpSession, diff: McpToolRegistryDiff): void {
+  for (const name of [...diff.removed, ...diff.changed]) {
+    session.tools.get(name)?.remove();
+    session.tools.delete(name);
+  }
+  for (const name of [...diff.added, ...diff.changed]) {
+    const tool = toolRegistry.find(t => t.name === name);
+    if (tool) {
+      registerSessionTool(session, tool);
+    }
+  }
+}
+
+function registerSessionResource(session: McpSession, resource: McpResourceRegister): void {
+  const { name, uri, config } = resource;
+  const { list, ...metadata } = config;
+  const read: McpResourceRegister['read'] = (url, variables) => {
+    const current = resourceRegistry.find(r => r.name === name) ?? resource;
+    return current.read(url, variables);
+  };
+  const handle = uri.includes('{')
+    ? session.server.registerResource(
+      name,
+      new ResourceTemplate(uri, {
+        list: list && (async () => ({ resources: await list() })),
+      }),
+      metadata,
+      (url, variables) => read(url, variables),
+    )
+    : session.server.registerResource(name, uri, metadata, url => read(url, {}));
+  session.resources.set(name, handle);
+}
+
+/**
+ * Apply a registry diff to one session; McpServer emits `notifications/resources/list_changed` for each update
+ */
+function syncSessionResources(session: McpSession, diff: McpToolRegistryDiff): void {
+  for (const name of [...diff.removed, ...diff.changed]) {
+    session.resources.get(name)?.remove();
+    session.resources.delete(name);
+  }
+  for (const name of [...diff.added, ...diff.changed]) {
+    const resource = resourceRegistry.find(r => r.name === name);
+    if (resource) {
+      registerSessionResource(session, resource);
+    }
+  }
+}
+
+export function getMcpPromptRegistry(): McpPromptResolved[] {
+  return promptRegistry;
+}
+
+function registerSessionPrompt(session: McpSession, prompt: McpPromptResolved): void {
+  const { name, config } = prompt;
+  const cb: McpPromptResolved['cb'] = (args) => {
+    const current = promptRegistry.find(p => p.name === name) ?? prompt;
+    return current.cb(args);
+  };
+  const handle = config.argsSchema
+    ? session.server.registerPrompt(name, config, args => cb(args as Record<string, string | undefined>))
+    : session.server.registerPrompt(name, config, () => cb());
+  session.prompts.set(name, handle);
+}
+
+/**
+ * Apply a registry diff to one session; McpServer emits `notifications/prompts/list_changed` for each update
+ */
+function syncSessionPrompts(session: McpSession, diff: McpToolRegistryDiff): void {
+  for (const name of [...diff.removed, ...diff.changed]) {
+    session.prompts.get(name)?.remove();
+    session.prompts.delete(name);
+  }
+  for (const name of [...diff.added, ...diff.changed]) {
+    const prompt = promptRegistry.find(p => p.name === name);
+    if (prompt) {
+      registerSessionPrompt(session, prompt);
+    }
+  }
+}
+
+/**
+ * Send `notifications/resources/updated` to every session subscribed to a URI accepted by `match`
+ */
+function notifyMcpResourcesUpdated(match: (uri: string) => boolean): void {
+  for (const session of sessions.values()) {
+    for (const uri of session.subscriptions) {
+      if (match(uri)) {
+        session.server.server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }
+  }
+}
+
+/**
+ * Tell subscribed MCP sessions that the resource at `uri` changed
+ * Plugins call this when data behind one of their resources changes
+ */
+export function notifyMcpResourceUpdated(uri: string): void {
+  notifyMcpResourcesUpdated(subscribed => subscribed === uri);
+}
+
+/** Drop a closed session and unlock the tasks it claimed */
+function forgetSession(sessionId: string): void {
+  if (!sessions.delete(sessionId)) {
+    return;
+  }
+  clientManager.dropSessionClaims(sessionId).catch((error) => {
+    console.error('[unplugin-devpilot] Failed to unlock tasks of a closed MCP session:', error);
+  });
+}
+
+async function createSession(): Promise<McpSession> {
+  const session: McpSession = {
+    server: new McpServer({
+      name: 'unplugin-devpilot',
+      version,
+    }, {
+      capabilities: {
+        resources: { subscribe: true, listChanged: true },
+      },
+    }),
+    transport: new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, session);
+      },
+      onsessionclosed: (sessionId) => {
+        forgetSession(sessionId);
+      },
+    }),
+    lastActiveAt: Date.now(),
+    openStreams: 0,
+    tools: new Map(),
+    resources: new Map(),
+    prompts: new Map(),
+    subscriptions: new Set(),
+  };
+  for (const tool of toolRegistry) {
+    registerSessionTool(session, tool);
+  }
+  for (const resource of resourceRegistry) {
+    registerSessionResource(session, resource);
+  }
+  for (const prompt of promptRegistry) {
+    registerSessionPrompt(session, prompt);
   }
+  session.server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    session.subscriptions.add(request.params.uri);
+    return {};
+  });
+  session.server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    session.subscriptions.delete(request.params.uri);
+    return {};
+  });
+  session.transport.onclose = () => {
+    if (session.transport.sessionId) {
+      forgetSession(session.transport.sessionId);
+    }
+  };
+  await session.server.connect(session.transport);
+  return session;
 }
 
-export async function startMcpServer(port: number): Promise<Server> {
+export function getMcpSessionIds(): string[] {
+  return Array.from(sessions.keys());
+}
+
+async function closeSessions(predicate: (session: McpSession) => boolean): Promise<void> {
+  const closing = Array.from(sessions.entries()).filter(([, session]) => predicate(session));
+  await Promise.all(closing.map(async ([sessionId, session]) => {
+    forgetSession(sessionId);
+    await session.server.close().catch(() => {});
+  }));
+}
+
+/**
+ * Close sessions without an open SSE stream whose last request is older than `maxIdleMs`
+ */
+export function closeIdleMcpSessions(maxIdleMs: number = SESSION_IDLE_TIMEOUT): Promise<void> {
+  const threshold = Date.now() - maxIdleMs;
+  return closeSessions(session => session.openStreams === 0 && session.lastActiveAt <= threshold);
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      }
+      catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function handleMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const sessionIdHeader = req.headers['mcp-session-id'];
+  const sessionId = Array.isArray(sessionIdHeader)
+    ? sessionIdHeader[0]
+    : sessionIdHeader;
+  const existing = sessionId
+    ? sessions.get(sessionId)
+    : undefined;
+
+  if (req.method === 'POST') {
+    let parsedBody: unknown;
+    try {
+      parsedBody = await readJsonBody(req);
+    }
+    catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+      return;
+    }
+
+    if (existing) {
+      existing.lastActiveAt = Date.now();
+      await existing.transport.handleRequest(req, res, parsedBody);
+      return;
+    }
+    if (sessionId) {
+      // Unknown or expired session: 404 tells the client to re-initialize
+      sendJsonError(res, 404, 'Session not found');
+      return;
+    }
+    if (!isInitializeRequest(parsedBody)) {
+      sendJsonError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    const session = await createSession();
+    await session.transport.handleRequest(req, res, parsedBody);
+    return;
+  }
+
+  if (req.method === 'GET' || req.method === 'DELETE') {
+    if (!sessionId) {
+      sendJsonError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    if (!existing) {
+      sendJsonError(res, 404, 'Session not found');
+      return;
+    }
+    existing.lastActiveAt = Date.now();
+    if (req.method === 'GET') {
+      existing.openStreams++;
+      res.once('close', () => {
+        existing.openStreams--;
+        existing.lastActiveAt = Date.now();
+      });
+    }
+    await existing.transport.handleRequest(req, res);
+    return;
+  }
+
+  res.writeHead(405, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: 'Method Not Allowed' }));
+}
+
+export async function startMcpServer(port: number, host: string = 'localhost'): Promise<Server> {
   if (httpServer) {
     return httpServer;
   }
@@ -41,60 +586,25 @@ export async function startMcpServer(port: number): Promise<Server> {
   httpServer = createServer();
 
   httpServer.on('request', (req, res) => {
+    if (!isAllowedHost(req, host) || !isAllowedMcpOrigin(req, host)) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Forbidden' }));
+      return;
+    }
     const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
     if (url.pathname === '/mcp') {
-      try {
-        const mcpServer = new McpServer({
-          name: 'unplugin-devpilot',
-          version,
-        });
-
-        for (const { name, config, cb } of getBuiltinTools()) {
-          mcpServer.registerTool(name, config, cb);
-        }
-
-        Object.entries(mcpRegeisterMethods).forEach(([namespace, mcpRegeisters]) => {
-          mcpRegeisters.forEach((mcpRegeister) => {
-            const { name: _name, config, cb } = mcpRegeister();
-            const name = _name.startsWith(`${namespace}/`)
-              ? _name
-              : `${namespace}_${_name}`;
-            mcpServer.registerTool(name, config, cb);
-          });
-        });
-
-        const transport = new StreamableHTTPServerTransport();
-        mcpServer.connect(transport);
-
-        if (req.method === 'POST') {
-          let body = '';
-          req.on('data', (chunk) => {
-            body += chunk.toString();
-          });
-          req.on('end', () => {
-            try {
-              const parsedBody = JSON.parse(body);
-              transport.handleRequest(req, res, parsedBody);
-            }
-            catch {
-              res.writeHead(400, { 'Content-Type': 'application/json' });
-              res.end(JSON.stringify({ error: 'Invalid JSON' }));
-            }
-          });
-        }
-        else if (req.method === 'GET') {
-          transport.handleRequest(req, res);
-        }
-        else {
-          res.writeHead(405, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Method Not Allowed' }));
-        }
+      if (!verifyAuthToken(getBearerToken(req))) {
+        res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+        res.end(JSON.stringify({ error: 'Unauthorized: missing or invalid bearer token' }));
+        return;
       }
-      catch (error) {
+      handleMcpRequest(req, res).catch((error) => {
         console.error('[unplugin-devpilot] Failed to handle MCP request:', error);
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Internal Server Error' }));
-      }
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Internal Server Error' }));
+        }
+      });
     }
     else if (url.pathname === '/health') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -114,15 +624,34 @@ export async function startMcpServer(port: number): Promise<Server> {
     }
   });
 
-  return new Promise((resolve) => {
-    httpServer!.listen(port, () => {
-      console.warn(`[unplugin-devpilot] MCP server listening on http://localhost:${port}/mcp`);
-      resolve(httpServer!);
+  sweepTimer = setInterval(() => {
+    void closeIdleMcpSessions();
+  }, SESSION_SWEEP_INTERVAL);
+  sweepTimer.unref?.();
+  unwatchBuiltinResources = watchBuiltinResources(notifyMcpResourcesUpdated);
+
+  const server = httpServer;
+  return new Promise((resolve, reject) => {
+    const onError = (error: Error): void => {
+      stopMcpServer().finally(() => reject(error));
+    };
+    server.once('error', onError);
+    server.listen(port, host, () => {
+      server.off('error', onError);
+      console.warn(`[unplugin-devpilot] MCP server listening on http://${host}:${port}/mcp`);
+      resolve(server);
     });
   });
 }
 
-export function stopMcpServer(): Promise<void> {
+export async function stopMcpServer(): Promise<void> {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+  unwatchBuiltinResources?.();
+  unwatchBuiltinResources = null;
+  await closeSessions(() => true);
   return new Promise((resolve) => {
     if (httpServer) {
       const server = httpServer;
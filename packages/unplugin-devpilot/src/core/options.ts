@@ -1,5 +1,8 @@
-import type { DevpilotPluginContext, McpToolRegister } from './plugin';
+import type { DevpilotPluginContext, McpResourceRegister, McpToolRegister } from './plugin';
+import type { StorageOption } from './storage';
+import type { ToolPolicy } from './tool-policy';
 import { checkPort, getRandomPort } from 'get-port-please';
+import { DEFAULT_RPC_TIMEOUT } from './constants';
 
 export { WS_PROXY_PATH } from './constants';
 
@@ -33,6 +36,11 @@ export interface DevpilotPlugin {
    */
   serverSetup?: (ctx: DevpilotPluginContext) => Record<string, (...args: any[]) => any>
   mcpSetup?: (ctx: DevpilotPluginContext) => Array<() => McpToolRegister>
+  /**
+   * Setup read-only MCP resources for this plugin
+   * Call `notifyMcpResourceUpdated(uri)` when the underlying data changes so subscribed agents are told
+   */
+  mcpResourceSetup?: (ctx: DevpilotPluginContext) => Array<() => McpResourceRegister>
   /**
    * The skill module path to be injected
    * - npm package path: 'my-plugin/skill'
@@ -52,6 +60,25 @@ export interface DevpilotPlugin {
 export interface Options {
   wsPort?: number
   mcpPort?: number
+  /**
+   * Interface the WebSocket and MCP servers bind to
+   * Use `'0.0.0.0'` to accept agents from other machines; requests still need the auth token
+   * @default 'localhost'
+   */
+  host?: string
+  /**
+   * Pages besides loopback and `host` whose client may connect, as origins or bare hostnames
+   * Needed when the app is opened under another name, e.g. a LAN address while `host` is `'0.0.0.0'`
+   * @default []
+   * @example
+   * ```ts
+   * Devpilot({
+   *   host: '0.0.0.0',
+   *   allowedOrigins: ['http://192.168.1.5:5173', 'my-app.test'],
+   * })
+   * ```
+   */
+  allowedOrigins?: string[]
   plugins?: DevpilotPlugin[]
   /**
    * The paths to generate the core skill files
@@ -68,13 +95,85 @@ export interface Options {
    * ```
    */
   skillPaths?: string[]
+  /**
+   * Where the task queue, history, screenshots and completion approvals are persisted so they survive
+   * dev-server restarts. Takes the same values as `storage`:
+   * - preset: `'memory'` | `'fs'` | `'fs-lite'`
+   * - preset with directory: `{ driver: 'fs-lite', base: './.devpilot/tasks' }`
+   * - unstorage driver: any `Driver` instance, e.g. `redisDriver({ ... })`
+   * - `false`: keep tasks in memory only
+   *
+   * File presets default to `node_modules/.devpilot/tasks`
+   * @default 'fs-lite'
+   * @example
+   * ```ts
+   * Devpilot({
+   *   taskStorage: { driver: 'fs', base: './.devpilot/tasks' },
+   * })
+   * ```
+   */
+  taskStorage?: StorageOption | false
+  /**
+   * Driver behind plugin storage (`DevpilotPluginContext.storage`, `getPluginStorage`, `createClientStorage`)
+   * - preset: `'memory'` | `'fs'` | `'fs-lite'`
+   * - preset with directory: `{ driver: 'fs-lite', base: './.devpilot' }`
+   * - unstorage driver: any `Driver` instance
+   *
+   * File presets default to `node_modules/.devpilot/storage`
+   * @default 'memory'
+   * @example
+   * ```ts
+   * Devpilot({
+   *   storage: { driver: 'fs-lite', base: './.devpilot' },
+   * })
+   * ```
+   */
+  storage?: StorageOption
+  /**
+   * Allow, deny or require in-page confirmation per MCP tool
+   * Keys are tool names as listed by tools/list, or globs using `*` and `?`
+   * Denied tools are hidden from tools/list; `confirm` shows an approve/deny prompt in the task UI before the tool runs
+   * @example
+   * ```ts
+   * Devpilot({
+   *   toolPolicy: {
+   *     'builtin-dom-inspector_*': 'allow',
+   *     'builtin-dom-inspector_click_element': 'confirm',
+   *     'builtin-dom-inspector_input_text': 'confirm',
+   *     'complete_task': 'deny',
+   *   },
+   * })
+   * ```
+   */
+  toolPolicy?: ToolPolicy
+  /**
+   * How long an RPC call between the server and a browser tab may take, in milliseconds
+   * Applies in both directions; calls that exceed it fail with an `RpcError` whose `code` is `'timeout'`
+   * @default 30000
+   */
+  rpcTimeout?: number
+  /**
+   * Add the client to the app in dev, without `import 'virtual:devpilot-client'` in the entry
+   * Vite injects it into `index.html`; webpack and Rspack add it to every entry. Other bundlers still need the import
+   * @default false
+   */
+  injectClient?: boolean
+  /**
+   * Share one MCP endpoint between the dev servers of several apps (e.g. in a monorepo)
+   * The first dev server owns `mcpPort`; later ones register with it instead of failing on the taken port,
+   * so `list_clients` and every tool reach the tabs of all apps. Set it in each app
+   * @default false
+   */
+  hub?: boolean
 }
 
-export type OptionsResolved = Required<Omit<Options, 'skillPaths'>> & Pick<Options, 'skillPaths'>;
+export type OptionsResolved
+  = Required<Omit<Options, 'skillPaths' | 'taskStorage' | 'storage'>>
+    & Pick<Options, 'skillPaths' | 'taskStorage' | 'storage'>;
 
 export async function resolveOptions(options: Options): Promise<OptionsResolved> {
   const wsPort = await resolveWsPort(options.wsPort);
-  const mcpPort = await resolveMcpPort(options.mcpPort);
+  const mcpPort = await resolveMcpPort(options.mcpPort, options.hub);
 
   lastResolvedWsPort = wsPort;
   lastResolvedMcpPort = mcpPort;
@@ -82,8 +181,16 @@ export async function resolveOptions(options: Options): Promise<OptionsResolved>
   return {
     wsPort,
     mcpPort,
+    host: options.host || 'localhost',
+    allowedOrigins: options.allowedOrigins || [],
     plugins: options.plugins || [],
     skillPaths: options.skillPaths || [],
+    taskStorage: options.taskStorage,
+    storage: options.storage,
+    toolPolicy: options.toolPolicy || {},
+    rpcTimeout: options.rpcTimeout || DEFAULT_RPC_TIMEOUT,
+    injectClient: options.injectClient ?? false,
+    hub: options.hub ?? false,
   };
 }
 
@@ -104,13 +211,16 @@ async function resolveWsPort(preferred?: number): Promise<number> {
   return getRandomPort();
 }
 
-async function resolveMcpPort(preferred?: number): Promise<number> {
+/**
+ * @param shared - With `Options.hub`, a taken port is the hub this dev server registers with
+ */
+async function resolveMcpPort(preferred?: number, shared?: boolean): Promise<number> {
   const candidate = preferred || 3101;
   if (candidate === lastResolvedMcpPort) {
     return candidate;
   }
   const available = await checkPort(candidate);
-  if (available === false) {
+  if (available === false && !shared) {
     throw new Error(
       `MCP port ${candidate} is already in use. Please specify a different port or free up the port.`,
     );
@@ -0,0 +1,61 @@
+/**
+ * Helpers for plugin RPC methods namespaced by `DevpilotPlugin.namespace`
+ * Shared with the browser client, so this module must stay free of Node imports
+ */
+
+const PLUGIN_RPC_SEPARATOR = ':';
+
+/** Promise-returning view of a plugin's RPC functions, as seen from the calling side. */
+export type PluginRpcFunctions<F> = {
+  [K in keyof F]: F[K] extends (...args: infer Args) => infer Return
+    ? (...args: Args) => Promise<Awaited<Return>>
+    : never;
+};
+
+/** Wire name of a plugin method: `${namespace}:${method}` */
+export function getPluginRpcMethod(namespace: string, method: string): string {
+  return `${namespace}${PLUGIN_RPC_SEPARATOR}${method}`;
+}
+
+/**
+ * Register each plugin's methods under their namespaced name, plus the bare name for compatibility
+ * A bare name defined by several plugins goes to the last one; `onConflict` reports it
+ */
+export function mergePluginRpcMethods(
+  methodsByNamespace: Record<string, Record<string, (...args: any[]) => any>>,
+  onConflict: (method: string, namespace: string) => void,
+): Record<string, (...args: any[]) => any> {
+  const merged: Record<string, (...args: any[]) => any> = {};
+  const flat: Record<string, (...args: any[]) => any> = {};
+  for (const [namespace, methods] of Object.entries(methodsByNamespace)) {
+    for (const [name, fn] of Object.entries(methods)) {
+      if (typeof fn !== 'function') {
+        continue;
+      }
+      if (flat[name]) {
+        onConflict(name, namespace);
+      }
+      flat[name] = fn;
+      merged[getPluginRpcMethod(namespace, name)] = fn;
+    }
+  }
+  return { ...flat, ...merged };
+}
+
+/**
+ * Proxy whose properties call the namespaced methods of one plugin through `call`
+ */
+export function createPluginRpcProxy<F>(
+  namespace: string,
+  call: (method: string, args: unknown[]) => Promise<unknown>,
+): PluginRpcFunctions<F> {
+  return new Proxy({}, {
+    get(_, prop) {
+      // Keep the proxy from looking like a thenable when awaited
+      if (typeof prop !== 'string' || prop === 'then') {
+        return undefined;
+      }
+      return (...args: unknown[]) => call(getPluginRpcMethod(namespace, prop), args);
+    },
+  }) as PluginRpcFunctions<F>;
+}
@@ -1,6 +1,7 @@
-import type { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ResourceMetadata, ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { AnySchema, ZodRawShapeCompat } from '@modelcontextprotocol/sdk/server/zod-compat.js';
-import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { ReadResourceResult, Resource, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 export interface McpToolConfig {
   title?: string
@@ -70,3 +71,46 @@ export function defineMcpToolRegister<
     cb,
   } as McpToolRegisterTyped<InputArgs, OutputArgs>);
 }
+
+export interface McpResourceConfig extends ResourceMetadata {
+  /**
+   * Enumerate the concrete resources of a URI template for resources/list
+   * Ignored for fixed URIs
+   */
+  list?: () => Resource[] | Promise<Resource[]>
+}
+
+export interface McpResourceRegister {
+  name: string
+  /** Fixed URI, or an RFC 6570 template such as `devpilot://tasks/{id}` */
+  uri: string
+  config: McpResourceConfig
+  read: (uri: URL, variables: Variables) => ReadResourceResult | Promise<ReadResourceResult>
+}
+
+export function defineMcpResourceRegister(
+  name: string,
+  uri: string,
+  config: McpResourceConfig,
+  read: McpResourceRegister['read'],
+): () => McpResourceRegister {
+  return () => ({
+    name,
+    uri,
+    config,
+    read,
+  });
+}
+
+/**
+ * Build a `ReadResourceResult` holding `data` as pretty-printed JSON
+ */
+export function jsonResourceContents(uri: URL, data: unknown): ReadResourceResult {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: 'application/json',
+      text: JSON.stringify(data, null, 2),
+    }],
+  };
+}
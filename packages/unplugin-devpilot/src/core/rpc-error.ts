@@ -0,0 +1,31 @@
+/**
+ * - `timeout`: the other side did not answer within the RPC timeout
+ * - `disconnected`: the WebSocket closed while the call was in flight
+ */
+export type RpcErrorCode = 'timeout' | 'disconnected';
+
+/**
+ * Rejection reason of RPC calls in both directions (server → tab and tab → server)
+ * Shared with the browser client, so this module must stay free of Node imports
+ */
+export class RpcError extends Error {
+  readonly code: RpcErrorCode;
+  /** Remote method being called, when the error concerns a single call */
+  readonly method?: string;
+
+  constructor(code: RpcErrorCode, message: string, method?: string) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+    this.method = method;
+  }
+}
+
+/**
+ * Checked by shape rather than `instanceof`, since plugins may load a different bundle of this module
+ */
+export function isRpcError(error: unknown, code?: RpcErrorCode): error is RpcError {
+  return error instanceof Error
+    && error.name === 'RpcError'
+    && (code === undefined || (error as RpcError).code === code);
+}
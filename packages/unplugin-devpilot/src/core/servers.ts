@@ -0,0 +1,131 @@
+import type { Options, OptionsResolved } from './options';
+import type { UpgradeableServer } from './ws-server';
+import process from 'node:process';
+import { clientManager } from './client-manager';
+import { getProjectIdScope, getProjectInfo, HUB_JOIN_ATTEMPTS, joinHub, startHub, stopHub } from './hub';
+import { removeLockFile, writeLockFile } from './lock-file';
+import { registerPluginMcpRegisterMethods, startMcpServer, stopMcpServer } from './mcp-server';
+import { resolveOptions } from './options';
+import { generateCoreSkill } from './skill-generator';
+import { configureStorage, createTaskStorage, disposeStorage } from './storage';
+import { configureToolPolicy } from './tool-policy';
+import { attachWebSocketServer, registerPluginServerMethods, startWebSocketServer, stopWebSocketServer } from './ws-server';
+
+let serversStarted = false;
+let lastOptions: OptionsResolved | null = null;
+
+/**
+ * Check if running in test environment
+ * Vitest sets: VITEST, TEST, NODE_ENV=test; Jest sets JEST_WORKER_ID; npm test sets npm_lifecycle_event=test
+ */
+export function isTestEnvironment(): boolean {
+  return !!(
+    process.env.VITEST
+    || process.env.TEST
+    || process.env.NODE_ENV === 'test'
+    || process.env.JEST_WORKER_ID
+    || process.env.npm_lifecycle_event === 'test'
+  );
+}
+
+/** WS/MCP only for local dev; skip tests, production NODE_ENV and the npm `build` script */
+export function isDevEnvironment(): boolean {
+  if (isTestEnvironment()) {
+    return false;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    return false;
+  }
+  return process.env.npm_lifecycle_event !== 'build';
+}
+
+/**
+ * Serve MCP on `mcpPort`, or with `Options.hub`, register with the dev server that already does
+ * When that dev server stops, registered ones take over in the same way
+ */
+async function startMcpEndpoint(options: OptionsResolved): Promise<void> {
+  if (!options.hub) {
+    await startMcpServer(options.mcpPort, options.host);
+    return;
+  }
+  const project = getProjectInfo();
+  const onLost = (): void => {
+    if (!serversStarted) {
+      return;
+    }
+    startMcpEndpoint(lastOptions ?? options).catch((error) => {
+      console.error('[unplugin-devpilot] Failed to take over the MCP hub:', error);
+    });
+  };
+  if (await joinHub(options.mcpPort, project, onLost, 1, clientManager, options.rpcTimeout)) {
+    return;
+  }
+  try {
+    await startMcpServer(options.mcpPort, options.host);
+  }
+  catch (error) {
+    // Another dev server took the port first
+    if (await joinHub(options.mcpPort, project, onLost, HUB_JOIN_ATTEMPTS, clientManager, options.rpcTimeout)) {
+      return;
+    }
+    throw error;
+  }
+  await startHub(options.mcpPort);
+}
+
+/**
+ * Start the WebSocket and MCP servers once per process; later calls only refresh plugins and options
+ * @param devServer - HTTP server of the dev server to attach the WebSocket to; without it, `wsPort` is listened on
+ * @param bundler - Reported with every client, e.g. `vite`
+ */
+export async function startServers(
+  rawOptions: Options,
+  devServer?: UpgradeableServer,
+  bundler?: string,
+): Promise<OptionsResolved> {
+  const options = await resolveOptions(rawOptions);
+  lastOptions = options;
+  configureToolPolicy(options.toolPolicy);
+  registerPluginServerMethods(options.plugins);
+  registerPluginMcpRegisterMethods(options.plugins);
+  if (!serversStarted) {
+    serversStarted = true;
+    const project = getProjectInfo();
+    clientManager.setProject({ ...project, bundler });
+    if (options.hub) {
+      clientManager.setIdScope(getProjectIdScope(project));
+    }
+    await configureStorage(options.storage);
+    if (options.taskStorage !== false) {
+      // Restore before accepting connections so reconnecting tabs can reclaim their tasks
+      await clientManager.attachTaskStorage(await createTaskStorage(options.taskStorage));
+    }
+    if (!devServer) {
+      startWebSocketServer(options.wsPort, options.host, options.rpcTimeout, options.allowedOrigins);
+    }
+    // Registering with a hub adopts its token, so this comes before anything that hands the token out
+    await startMcpEndpoint(options);
+    await writeLockFile(options);
+  }
+  if (devServer) {
+    attachWebSocketServer(devServer, options.rpcTimeout, options.host, options.allowedOrigins);
+  }
+  await generateCoreSkill(options, process.env.NODE_ENV !== 'production');
+  return options;
+}
+
+export async function stopServers(): Promise<void> {
+  if (!serversStarted) { return; }
+  serversStarted = false;
+  await Promise.all([
+    stopWebSocketServer(),
+    // Free the port before registered dev servers notice and try to take it over
+    stopMcpServer().then(stopHub),
+    clientManager.flushTaskStorage(),
+    removeLockFile(),
+  ]);
+  if (lastOptions) {
+    await generateCoreSkill(lastOptions, false);
+  }
+  await disposeStorage();
+}
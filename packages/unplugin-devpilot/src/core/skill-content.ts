@@ -0,0 +1,75 @@
+import type { DevpilotPlugin } from './options';
+import type { DevpilotPluginContext } from './plugin';
+import { promises as fs } from 'node:fs';
+import { join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * How agents should work through the browser task queue
+ * Shared by the generated SKILL.md and the `devpilot/triage-task` MCP prompt
+ */
+export const AGENT_WORKFLOW_MARKDOWN = `## Browser task queue (from the page)
+
+When \`virtual:devpilot-client\` is loaded in dev, **Tasks** opens a panel that polls **getTaskDashboard** every second (pending + in progress). **Alt+Shift+I** toggles pick mode to submit a new task.
+
+### Agent workflow
+
+1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids, most urgent first (or read ids in the panel). Filter with \`minPriority\` or \`labels\` to pick matching work.
+2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue). Only your MCP session can then complete, fail, release or ask about it.
+3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`. Tasks about several elements (shift-click or a dragged region) list all of them in \`elements\`, with their \`region\` on the page. When a task has a \`screenshot\`, pass \`includeScreenshots: true\` to **get_pending_tasks** (or \`includeScreenshot: true\` to **claim_task**) to see it with the picked elements outlined.
+4. If the note is ambiguous, **ask_task_question** with the \`taskId\` and your question; the developer answers in the panel. Pass \`waitForAnswer: true\` to wait for the reply, or read it later from \`comments\` in **get_task_history**.
+5. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
+6. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+
+If you cannot finish a task, call **fail_task** with a \`reason\`, or **release_task** to put it back in the queue for another attempt. Never leave a task in progress. The developer can reopen a completed or failed task from the panel; it returns to the pending queue with a \`reopenReason\`.
+
+Use **list_clients** when multiple tabs are open, and **get_audit_log** to review earlier tool calls and their outcomes.`;
+
+/**
+ * Resolve a plugin's `skillModule` to a filesystem path
+ * Supports file:// URLs (from resolveModule) and direct paths (relative/absolute)
+ */
+export function resolvePluginSkillPath(plugin: DevpilotPlugin, ctx: DevpilotPluginContext): string | undefined {
+  if (!plugin.skillModule) {
+    return undefined;
+  }
+  const mod = typeof plugin.skillModule === 'function'
+    ? plugin.skillModule(ctx)
+    : plugin.skillModule;
+  return mod.startsWith('file://')
+    ? fileURLToPath(mod)
+    : mod;
+}
+
+async function collectMarkdownFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await collectMarkdownFiles(fullPath));
+    }
+    else if (entry.isFile() && entry.name.endsWith('.md')) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Read a skill file, or every markdown file of a skill folder with `index.md` first
+ */
+export async function readSkillContent(skillPath: string): Promise<string> {
+  const stat = await fs.stat(skillPath);
+  if (!stat.isDirectory()) {
+    return fs.readFile(skillPath, 'utf-8');
+  }
+  const files = await collectMarkdownFiles(skillPath);
+  const index = join(skillPath, 'index.md');
+  files.sort((a, b) => Number(b === index) - Number(a === index));
+  const sections = await Promise.all(files.map(async (file) => {
+    const content = await fs.readFile(file, 'utf-8');
+    return `<!-- ${relative(skillPath, file).replaceAll('\\', '/')} -->\n\n${content.trim()}`;
+  }));
+  return sections.join('\n\n');
+}
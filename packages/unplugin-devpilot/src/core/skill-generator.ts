@@ -1,9 +1,11 @@
 import type { DevpilotPlugin, OptionsResolved } from './options';
 import { promises as fs } from 'node:fs';
-import { dirname, extname, join } from 'node:path';
+import { dirname, extname, join, relative } from 'node:path';
 import process from 'node:process';
-import { fileURLToPath } from 'node:url';
-import { getBuiltinToolNames } from './builtin-tools';
+import { resolveConnectHost } from './auth';
+import { getLockFilePath } from './lock-file';
+import { getMcpToolRegistry } from './mcp-server';
+import { AGENT_WORKFLOW_MARKDOWN, resolvePluginSkillPath } from './skill-content';
 import { getPluginStorage } from './storage';
 import { resolveModule } from './utils';
 
@@ -95,17 +97,9 @@ async function getPluginSkillModules(plugins: DevpilotPlugin[], options: Options
 }>> {
   const results = [];
   for (const p of plugins) {
-    if (!p.skillModule) { continue; }
-
     const ctx = { wsPort: options.wsPort, storage: getPluginStorage(p.namespace) };
-    const mod = typeof p.skillModule === 'function'
-      ? p.skillModule(ctx)
-      : p.skillModule!;
-
-    // Handle file:// URLs or direct paths
-    const skillPath = mod.startsWith('file://')
-      ? fileURLToPath(mod)
-      : mod;
+    const skillPath = resolvePluginSkillPath(p, ctx);
+    if (!skillPath) { continue; }
 
     // Check if it's a directory
     const isDir = await isDirectory(skillPath);
@@ -122,30 +116,15 @@ async function getPluginSkillModules(plugins: DevpilotPlugin[], options: Options
   return results;
 }
 
-function collectAllowedTools(plugins: DevpilotPlugin[], options: OptionsResolved): string[] {
-  const tools: string[] = [...getBuiltinToolNames()];
-  for (const plugin of plugins) {
-    if (plugin.mcpSetup) {
-      try {
-        const ctx = { wsPort: options.wsPort, storage: getPluginStorage(plugin.namespace) };
-        const mcps = plugin.mcpSetup(ctx);
-        for (const register of mcps) {
-          const result = register();
-          if (result.name) {
-            tools.push(result.name);
-          }
-        }
-      }
-      catch {
-        // skip
-      }
-    }
-  }
-  return tools;
+/**
+ * Read tool names from the live MCP registry so `allowed-tools` always matches what tools/list reports
+ */
+function collectAllowedTools(): string[] {
+  return getMcpToolRegistry().map(tool => tool.name);
 }
 
-function generateFrontmatter(options: OptionsResolved): string {
-  const allowedTools = collectAllowedTools(options.plugins, options);
+function generateFrontmatter(): string {
+  const allowedTools = collectAllowedTools();
   const toolsYaml = allowedTools.length > 0
     ? `allowed-tools: [\n${allowedTools.map(t => `  "${t}"`).join(',\n')}\n]`
     : 'allowed-tools: []';
@@ -183,8 +162,9 @@ async function generateCoreSkillContent(options: OptionsResolved, isDev: boolean
     return `- [${skill.namespace}](${linkPath}) - ${skill.namespace} capabilities`;
   }).join('\n');
 
-  const frontmatter = generateFrontmatter(options);
+  const frontmatter = generateFrontmatter();
 
+  // No auth token here: skill files are made readable to every user, while the lock file is private
   return `${frontmatter}
 
 # Devpilot Core Skills
@@ -201,25 +181,14 @@ ${skillList || 'No plugin skills configured'}
 
 These skills can be used with Claude Agent to interact with web applications.
 
-## Browser task queue (from the page)
-
-When \`virtual:devpilot-client\` is loaded in dev, **Tasks** opens a panel that polls **getTaskDashboard** every second (pending + in progress). **Alt+Shift+I** toggles pick mode to submit a new task.
-
-### Agent workflow
-
-1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids (or read ids in the panel).
-2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue).
-3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`.
-4. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
-5. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
-
-Use **list_clients** when multiple tabs are open.
+${AGENT_WORKFLOW_MARKDOWN}
 
 ## Configuration
 
 - **Plugins**: ${options.plugins.length}
 - **WebSocket Port**: ${options.wsPort}
 - **MCP Port**: ${options.mcpPort}
+- **MCP Endpoint**: \`http://${resolveConnectHost(options.host)}:${options.mcpPort}/mcp\` with header \`Authorization: Bearer <token>\`. The token changes on every dev-server start; read it from the \`token\` field of \`${relative(process.cwd(), getLockFilePath())}\`, or connect through the \`devpilot-mcp\` stdio bridge, which does that for you
 `;
 }
 
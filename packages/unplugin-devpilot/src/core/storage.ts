@@ -1,12 +1,131 @@
-import type { Storage, StorageValue } from 'unstorage';
+import type { Driver, Storage, StorageValue } from 'unstorage';
+import { join, resolve } from 'node:path';
+import process from 'node:process';
 import { createStorage, prefixStorage } from 'unstorage';
+import fsLiteDriver from 'unstorage/drivers/fs-lite';
+import memoryDriver from 'unstorage/drivers/memory';
+
+export type StoragePreset = 'memory' | 'fs' | 'fs-lite';
+
+export interface StoragePresetOptions {
+  driver: StoragePreset
+  /**
+   * Directory for the `fs` / `fs-lite` presets; relative paths resolve against the current working directory
+   * @default 'node_modules/.devpilot/storage'
+   */
+  base?: string
+}
+
+export type StorageOption = StoragePreset | StoragePresetOptions | Driver;
 
 export const storage: Storage<StorageValue> = createStorage();
 
+/** Writes that have been issued to the root driver but not settled yet. */
+const pendingWrites = new Set<Promise<unknown>>();
+
 export function getPluginStorage(namespace: string): Storage<StorageValue> {
   return prefixStorage(storage, namespace);
 }
 
+/**
+ * Wait for in-flight writes, then release driver resources (file watchers, connections)
+ */
 export async function disposeStorage(): Promise<void> {
+  await flushStorage();
   await storage.dispose();
 }
+
+/**
+ * Resolve once every write issued so far has settled
+ */
+export async function flushStorage(): Promise<void> {
+  while (pendingWrites.size > 0) {
+    await Promise.allSettled([...pendingWrites]);
+  }
+}
+
+/**
+ * Default directory for data that should survive dev-server restarts
+ */
+export function getDefaultPersistDir(cwd: string = process.cwd()): string {
+  return join(cwd, 'node_modules', '.devpilot');
+}
+
+function isDriver(option: StorageOption): option is Driver {
+  return typeof option === 'object' && typeof (option as Driver).getItem === 'function';
+}
+
+/**
+ * Turn the `storage` or `taskStorage` option into an unstorage driver
+ * The `fs` driver is loaded lazily since it pulls in a file watcher
+ * @param defaultDir - Directory of file presets without a `base`
+ */
+export async function resolveStorageDriver(
+  option: StorageOption = 'memory',
+  defaultDir: string = join(getDefaultPersistDir(), 'storage'),
+): Promise<Driver> {
+  if (isDriver(option)) {
+    return option;
+  }
+  const { driver: preset, base } = typeof option === 'string'
+    ? { driver: option, base: undefined }
+    : option;
+  const dir = base
+    ? resolve(process.cwd(), base)
+    : defaultDir;
+  switch (preset) {
+    case 'fs': {
+      const { default: fsDriver } = await import('unstorage/drivers/fs');
+      return fsDriver({ base: dir });
+    }
+    case 'fs-lite':
+      return fsLiteDriver({ base: dir });
+    case 'memory':
+      return memoryDriver();
+    default:
+      throw new Error(`Unknown storage preset "${String(preset)}". Expected 'memory', 'fs', 'fs-lite' or an unstorage driver.`);
+  }
+}
+
+function trackWrites(driver: Driver): Driver {
+  const track = <T>(result: T): T => {
+    if (result instanceof Promise) {
+      const settle = (): void => {
+        pendingWrites.delete(result);
+      };
+      pendingWrites.add(result);
+      result.then(settle, settle);
+    }
+    return result;
+  };
+  return {
+    ...driver,
+    setItem: driver.setItem && ((...args) => track(driver.setItem!(...args))),
+    setItems: driver.setItems && ((...args) => track(driver.setItems!(...args))),
+    setItemRaw: driver.setItemRaw && ((...args) => track(driver.setItemRaw!(...args))),
+    removeItem: driver.removeItem && ((...args) => track(driver.removeItem!(...args))),
+    clear: driver.clear && ((...args) => track(driver.clear!(...args))),
+  };
+}
+
+/**
+ * Mount the configured driver as the root of the shared plugin storage
+ * Namespaced views from `getPluginStorage` are prefixes of the root, so they pick up the new driver transparently
+ */
+export async function configureStorage(option?: StorageOption): Promise<void> {
+  const driver = trackWrites(await resolveStorageDriver(option));
+  await flushStorage();
+  const previous = storage.getMount('').driver;
+  storage.mount('', driver);
+  await previous.dispose?.();
+}
+
+/**
+ * Create the storage backing the task queue, history and screenshots
+ * @param option - Same presets as `storage`; file presets default to `node_modules/.devpilot/tasks`
+ */
+export async function createTaskStorage(option: StorageOption = 'fs-lite'): Promise<Storage<StorageValue>> {
+  return createStorage({
+    driver: await resolveStorageDriver(option, join(getDefaultPersistDir(), 'tasks')),
+  });
+}
@@ -0,0 +1,118 @@
+import type { ClientConnection } from './client-manager';
+import type { ToolConfirmationRequest } from './types';
+import { randomUUID } from 'node:crypto';
+import { clientManager } from './client-manager';
+import { getRpcTimeout } from './ws-server';
+
+export type ToolPolicyAction = 'allow' | 'deny' | 'confirm';
+
+/**
+ * Tool name or glob (`*`, `?`) mapped to an action, e.g. `{ 'builtin-dom-inspector_*': 'confirm' }`
+ * Exact names win over globs; among globs the longest pattern wins. Unmatched tools are allowed.
+ */
+export type ToolPolicy = Record<string, ToolPolicyAction>;
+
+/** How long a confirmation prompt stays open, unless `rpcTimeout` ends the call earlier. */
+const CONFIRMATION_TIMEOUT = 45 * 1000;
+
+let toolPolicy: ToolPolicy = {};
+
+export function configureToolPolicy(policy: ToolPolicy = {}): void {
+  toolPolicy = policy;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+export function resolveToolPolicyAction(name: string, policy: ToolPolicy = toolPolicy): ToolPolicyAction {
+  if (Object.hasOwn(policy, name)) {
+    return policy[name];
+  }
+  const match = Object.keys(policy)
+    .filter(pattern => /[*?]/.test(pattern) && globToRegExp(pattern).test(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return match
+    ? policy[match]
+    : 'allow';
+}
+
+/**
+ * The tab named by the call's `clientId`, or the most recently active tab
+ */
+function findConfirmationClient(args: Record<string, unknown>): ClientConnection | undefined {
+  if (typeof args.clientId === 'string') {
+    const target = clientManager.getClient(args.clientId);
+    if (target) {
+      return target;
+    }
+  }
+  const [latest] = clientManager.getAllClients().sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+  return latest
+    ? clientManager.getClient(latest.clientId)
+    : undefined;
+}
+
+async function requestConfirmation(client: ClientConnection, request: ToolConfirmationRequest): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), request.expiresAt - Date.now());
+  });
+  try {
+    return await Promise.race([
+      Promise.resolve(client.rpc.confirmToolCall(request)).then(approved => approved === true),
+      timeout,
+    ]);
+  }
+  catch {
+    return false;
+  }
+  finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Apply `Options.toolPolicy` to a tool call
+ * @returns why the call was refused, or `null` when it may proceed
+ */
+export async function enforceToolPolicy(
+  name: string,
+  args: Record<string, unknown>,
+  sessionId?: string,
+): Promise<string | null> {
+  const action = resolveToolPolicyAction(name);
+  if (action === 'allow') {
+    return null;
+  }
+  if (action === 'deny') {
+    return `Tool "${name}" is denied by the devpilot toolPolicy.`;
+  }
+
+  const client = findConfirmationClient(args);
+  if (!client) {
+    return `Tool "${name}" requires confirmation in the browser, but no client is connected.`;
+  }
+  const approved = await requestConfirmation(client, {
+    id: randomUUID(),
+    tool: name,
+    args,
+    sessionId,
+    expiresAt: Date.now() + Math.min(CONFIRMATION_TIMEOUT, getRpcTimeout()),
+  });
+  return approved
+    ? null
+    : `The developer did not approve the call to "${name}" in the browser.`;
+}
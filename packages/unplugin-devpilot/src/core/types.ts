@@ -1,3 +1,5 @@
+import type { TASK_PRIORITIES } from './constants';
+
 export interface ClientInfo {
   clientId: string
   url: string
@@ -6,6 +8,42 @@ export interface ClientInfo {
   connectedAt: number
   lastActiveAt: number
   active: boolean
+  /** Name of the app whose dev server the tab is connected to (its `package.json` name) */
+  project?: string
+  /** Root directory of that app */
+  root?: string
+  /** Bundler serving the app, e.g. `vite` or `webpack` */
+  bundler?: string
+  viewport?: { width: number, height: number }
+  devicePixelRatio?: number
+  colorScheme?: 'light' | 'dark'
+  /** `navigator.language`, e.g. `en-US` */
+  language?: string
+  /** `document.visibilityState` */
+  visibility?: 'visible' | 'hidden'
+  /** Whether the page has focus */
+  focused?: boolean
+  /** Frontend framework detected on the page */
+  framework?: FrameworkInfo
+}
+
+export interface FrameworkInfo {
+  /** e.g. `react`, `vue`, `next` */
+  name: string
+  version?: string
+}
+
+/** What the tab reports about itself; the server adds ids, times and the app */
+export type ReportedClientInfo = Omit<
+  ClientInfo,
+  'clientId' | 'connectedAt' | 'lastActiveAt' | 'active' | 'project' | 'root' | 'bundler'
+>;
+
+/** App a dev server belongs to, used to tell clients apart when several apps share one MCP hub */
+export interface ProjectInfo {
+  name: string
+  root: string
+  bundler?: string
 }
 
 export interface TaskElementInfo {
@@ -22,46 +60,169 @@ export interface TaskElementInfo {
   [key: string]: unknown
 }
 
+/** Rectangle on the page in CSS pixels, relative to the top left of the document */
+export interface TaskRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Image of the picked elements and their surroundings with the picks outlined, attached in the pick dialog */
+export interface TaskScreenshot {
+  mimeType: string
+  /** Base64 without the `data:` prefix */
+  data: string
+  width: number
+  height: number
+}
+
+/** What tasks carry of their screenshot; the image itself is kept in plugin storage */
+export type TaskScreenshotInfo = Omit<TaskScreenshot, 'data'>;
+
+/** Entry of the thread on a task: a question of the agent, or the developer's answer to it */
+export interface TaskComment {
+  id: string
+  author: 'agent' | 'human'
+  text: string
+  timestamp: number
+  /** Id of the question a human comment answers */
+  inReplyTo?: string
+}
+
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+
+/** Who changed a task: an agent through MCP, or the developer in the Tasks panel */
+export interface TaskActor {
+  by: 'agent' | 'human'
+  /** MCP session of the agent */
+  sessionId?: string
+  /** Tab the developer acted in */
+  clientId?: string
+}
+
+export interface TaskTransition extends TaskActor {
+  from: TaskStatus
+  to: TaskStatus
+  at: number
+  reason?: string
+}
+
 export interface TaskHistory {
   id: string
   sourceClient: string
+  /** First picked element; see `elements` for tasks about several */
   element: TaskElementInfo
+  /** Every picked element, in pick order, when the task is about more than one */
+  elements?: TaskElementInfo[]
+  /** Region dragged out in pick mode, or the bounds of the picked elements */
+  region?: TaskRegion
+  screenshot?: TaskScreenshotInfo
   userNote?: string
   timestamp: number
-  status: 'pending' | 'in_progress' | 'completed' | 'failed'
+  priority?: TaskPriority
+  labels?: string[]
+  status: TaskStatus
+  /** MCP session that claimed the task; only it can complete, fail, release or ask about it */
+  claimedBy?: string
   completedAt?: number
   completedBy?: string
   result?: Record<string, any>
+  /** Clarification thread between the agent and the developer, oldest first */
+  comments?: TaskComment[]
+  /** Every status change after submission, oldest first */
+  transitions?: TaskTransition[]
 }
 
 export interface ClientDiscoveryFilter {
   urlPattern?: string
   titlePattern?: string
   clientId?: string
+  project?: string
+  bundler?: string
+  /** Framework name, e.g. `react` */
+  framework?: string
+  colorScheme?: 'light' | 'dark'
+  /** Language or its prefix, e.g. `en` matches `en-US` */
+  language?: string
+  visibility?: 'visible' | 'hidden'
+  focused?: boolean
+  /** Tells mobile emulation (narrow viewports) from desktop tabs */
+  minViewportWidth?: number
+  maxViewportWidth?: number
+  minDevicePixelRatio?: number
 }
 
 export interface PendingTask {
   id: string
   sourceClient: string
+  /** First picked element; see `elements` for tasks about several */
   element: TaskElementInfo
+  /** Every picked element, in pick order, when the task is about more than one */
+  elements?: TaskElementInfo[]
+  /** Region dragged out in pick mode, or the bounds of the picked elements */
+  region?: TaskRegion
+  screenshot?: TaskScreenshotInfo
   userNote?: string
   timestamp: number
+  /** @default 'normal' */
+  priority?: TaskPriority
+  /** Free-form labels chosen by the developer, e.g. `copy` or `a11y` */
+  labels?: string[]
+  /** Why the task is back in the queue, when an agent released it or the developer reopened it */
+  reopenReason?: string
+}
+
+export interface TaskDashboard {
+  pending: PendingTask[]
+  inProgress: TaskHistory[]
+  /** Completed, failed and cancelled tasks, newest first */
+  finished: TaskHistory[]
+}
+
+export interface PendingTaskFilter {
+  /** Only tasks at least this urgent */
+  minPriority?: TaskPriority
+  /** Only tasks carrying every one of these labels (case-insensitive) */
+  labels?: string[]
+  /** `priority` (default): most urgent first, then oldest first; `timestamp`: oldest first */
+  sortBy?: 'priority' | 'timestamp'
 }
 
 /** Payload from browser task UI; server assigns id, sourceClient, timestamp. */
-export type TaskSubmitPayload = Pick<PendingTask, 'element' | 'userNote'>;
+export type TaskSubmitPayload = Pick<
+  PendingTask,
+  'element' | 'elements' | 'region' | 'userNote' | 'priority' | 'labels'
+> & {
+  /** Set by a task payload hook, e.g. the DOM inspector's, when the developer asks for one */
+  screenshot?: TaskScreenshot
+};
 
 // Base server functions that can be extended by plugins
 export interface BaseServerFunctions {
   ping: () => string
-  updateClientInfo: (info: Omit<ClientInfo, 'clientId' | 'connectedAt' | 'lastActiveAt'>) => void
-  submitTask: (payload: TaskSubmitPayload) => { id: string }
+  updateClientInfo: (info: ReportedClientInfo) => void
+  submitTask: (payload: TaskSubmitPayload) => Promise<{ id: string }>
   /** Read-only queue snapshot for the in-browser task panel (does not dequeue). */
   peekPendingTasks: () => PendingTask[]
-  /** Pending queue + in-progress history for UI polling. */
-  getTaskDashboard: () => { pending: PendingTask[], inProgress: TaskHistory[] }
+  /** Pending queue, in-progress and recently finished history for UI polling. */
+  getTaskDashboard: () => TaskDashboard
   /** Issue a one-time token for completing a task (browser only; human pastes into the agent). */
   prepareTaskCompletionApproval: (taskId: string) => { token: string } | { error: string }
+  /** Put a completed or failed task back in the queue, e.g. when the work is not actually done. */
+  reopenTask: (taskId: string, reason?: string) => { ok: true } | { ok: false, error: string }
+  /** Withdraw a pending or in-progress task. */
+  cancelTask: (taskId: string) => { ok: true } | { ok: false, error: string }
+  /** Reply to a question the agent asked on a task (`ask_task_question`). */
+  answerTaskQuestion: (
+    taskId: string,
+    questionId: string,
+    answer: string,
+  ) => { ok: true } | { ok: false, error: string }
+  /** Recent MCP tool invocations, newest first, for the task panel's audit tab. */
+  getAuditLog: (query?: AuditLogQuery) => AuditLogEntry[]
   storageGetItem: (namespace: string, key: string) => Promise<any>
   storageSetItem: (namespace: string, key: string, value: any) => Promise<void>
   storageRemoveItem: (namespace: string, key: string) => Promise<void>
@@ -76,10 +237,50 @@ export interface PluginServerFunctions {}
 // Combined server functions type
 export type ServerFunctions = BaseServerFunctions & PluginServerFunctions;
 
+/** A tool call held back by `Options.toolPolicy` until the developer approves it in the page. */
+export interface ToolConfirmationRequest {
+  id: string
+  tool: string
+  args: Record<string, unknown>
+  /** MCP session that issued the call */
+  sessionId?: string
+  /** The call is refused if no answer arrives by this time */
+  expiresAt: number
+}
+
+/** One MCP tool invocation, recorded whether it succeeded, failed or was refused by `toolPolicy`. */
+export interface AuditLogEntry {
+  id: string
+  timestamp: number
+  sessionId?: string
+  tool: string
+  /** Arguments of the call, with free text and secrets redacted */
+  args: Record<string, unknown>
+  /** The tab the call targets: its `clientId` argument, or the source tab of its `taskId` */
+  clientId?: string
+  durationMs: number
+  success: boolean
+  /** Error message, or the text of an `isError` result */
+  error?: string
+}
+
+export interface AuditLogQuery {
+  tool?: string
+  clientId?: string
+  sessionId?: string
+  success?: boolean
+  /** Only entries at or after this timestamp */
+  since?: number
+  /** @default 50 */
+  limit?: number
+}
+
 // Base client functions that can be extended by plugins
 export interface BaseClientFunctions {
   notifyTaskUpdate: (count: number) => void
   notifyTaskCompleted: (taskId: string) => void
+  /** Ask the developer to approve a tool call; resolves to `true` when approved. */
+  confirmToolCall: (request: ToolConfirmationRequest) => boolean | Promise<boolean>
 }
 
 // Default empty interface for plugins to extend via module augmentation
@@ -1,12 +1,66 @@
+import type { Buffer } from 'node:buffer';
+import type { EventEmitter } from 'node:events';
+import type { IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import type { ServerOptions, WebSocket } from 'ws';
 import type { DevpilotPlugin } from './options';
-import type { ClientFunctions, ServerFunctions, TaskSubmitPayload } from './types';
+import type {
+  AuditLogQuery,
+  ClientFunctions,
+  ServerFunctions,
+  TaskPriority,
+  TaskScreenshot,
+  TaskSubmitPayload,
+} from './types';
 import { createBirpc } from 'birpc';
-import { uniqueId } from 'es-toolkit/compat';
 import { WebSocketServer } from 'ws';
+import { getAuditLog } from './audit-log';
+import {
+  getWsProtocolToken,
+  getWsProtocolValue,
+  hasWsProtocol,
+  isAllowedHost,
+  isAllowedWsOrigin,
+  verifyAuthToken,
+} from './auth';
 import { clientManager } from './client-manager';
+import {
+  DEFAULT_RPC_TIMEOUT,
+  TASK_PRIORITIES,
+  WS_CLIENT_PROTOCOL_PREFIX,
+  WS_PROTOCOL,
+  WS_PROXY_PATH,
+  WS_RELOAD_PROTOCOL,
+} from './constants';
+import { mergePluginRpcMethods } from './plugin-rpc';
+import { RpcError } from './rpc-error';
 import { getPluginStorage } from './storage';
 
+type UpgradeListener = (req: IncomingMessage, socket: Duplex, head: Buffer) => void;
+
+/** Node HTTP(S) server of a dev server, e.g. Vite's `server.httpServer` */
+export interface UpgradeableServer {
+  on: (event: 'upgrade', listener: UpgradeListener) => unknown
+  off: (event: 'upgrade', listener: UpgradeListener) => unknown
+  address?: () => AddressInfo | string | null
+}
+
+/** Dev server whose earlier upgrade listeners can be kept away from `WS_PROXY_PATH` */
+export type ReservableServer = UpgradeableServer & Pick<EventEmitter, 'listeners'>;
+
+/** Upper bound on waiting for the old socket of a reloaded tab to answer a ping */
+const HOLDER_PING_TIMEOUT = 2000;
+
 let wss: WebSocketServer | null = null;
+let rpcTimeout = DEFAULT_RPC_TIMEOUT;
+let allowedOrigins: string[] = [];
+/** Dev server whose upgrade requests for `WS_PROXY_PATH` are handed to `wss` */
+let upgradeTarget: { server: UpgradeableServer, listener: UpgradeListener, host: string } | null = null;
+
+function isProxyPath(req: IncomingMessage): boolean {
+  return new URL(req.url ?? '/', 'http://localhost').pathname === WS_PROXY_PATH;
+}
 
 // Store plugin server methods
 let pluginServerMethods: Record<string, Record<string, (...args: any[]) => any>> = {};
@@ -31,107 +85,304 @@ export function registerPluginServerMethods(plugins: DevpilotPlugin[]): void {
   }
 }
 
-export function startWebSocketServer(port: number): WebSocketServer {
-  if (wss) {
-    return wss;
-  }
+/** Deadline of server → tab calls, as configured by `Options.rpcTimeout`. */
+export function getRpcTimeout(): number {
+  return rpcTimeout;
+}
+
+/** Priority and labels as picked in the browser, ignoring values no tab of ours would send */
+function getTaskTriage(payload: TaskSubmitPayload): Pick<TaskSubmitPayload, 'priority' | 'labels'> {
+  const priority = TASK_PRIORITIES.includes(payload.priority as TaskPriority)
+    ? payload.priority
+    : undefined;
+  const labels = Array.isArray(payload.labels)
+    ? [...new Set(payload.labels.filter(l => typeof l === 'string').map(l => l.trim()).filter(Boolean))]
+    : [];
+  return {
+    ...(priority && { priority }),
+    ...(labels.length > 0 && { labels }),
+  };
+}
+
+/** Screenshot attached by a task payload hook, if it is an image */
+function getTaskScreenshot(payload: TaskSubmitPayload): TaskScreenshot | undefined {
+  const { screenshot } = payload;
+  return screenshot && typeof screenshot.data === 'string' && /^image\/[\w.+-]+$/.test(screenshot.mimeType)
+    ? { mimeType: screenshot.mimeType, data: screenshot.data, width: screenshot.width, height: screenshot.height }
+    : undefined;
+}
 
-  wss = new WebSocketServer({ port });
+function handleConnection(ws: WebSocket, req: IncomingMessage): void {
+  // Reloaded tabs offer their previous id so agents can keep addressing them
+  const clientId = clientManager.resolveClientId(getWsProtocolValue(req, WS_CLIENT_PROTOCOL_PREFIX));
+  // The old socket of a reloaded tab may still be closing; it must not serve RPC calls for the new page
+  clientManager.getClient(clientId)?.ws?.terminate();
 
-  wss.on('connection', (ws) => {
-    const clientId = clientManager.generateClientId();
+  // Plugin methods are reachable as `${namespace}:${name}`; bare names remain for older clients
+  const allPluginMethods = mergePluginRpcMethods(pluginServerMethods, (name, namespace) => {
+    console.warn(`[unplugin-devpilot] Method "${name}" from plugin "${namespace}" conflicts with an existing method. The bare name now calls "${namespace}"; use client.plugin(namespace).rpcCall() to reach a specific plugin.`);
+  });
 
-    // Merge all plugin server methods
-    const allPluginMethods: Record<string, (...args: any[]) => any> = {};
-    for (const [namespace, methods] of Object.entries(pluginServerMethods)) {
-      for (const [name, fn] of Object.entries(methods)) {
-        if (allPluginMethods[name]) {
-          console.warn(`[unplugin-devpilot] Method "${name}" from plugin "${namespace}" conflicts with an existing method. The previous one will be overwritten.`);
-        }
-        allPluginMethods[name] = fn;
+  const serverFunctions: ServerFunctions = {
+    ping() {
+      return 'pong';
+    },
+    updateClientInfo(info) {
+      clientManager.updateClientInfo(clientId, info);
+    },
+    async submitTask(payload: TaskSubmitPayload) {
+      const id = clientManager.generateTaskId();
+      const screenshot = getTaskScreenshot(payload);
+      // Stored first, so agents that see the task can fetch its screenshot
+      if (screenshot) {
+        await clientManager.saveTaskScreenshot(id, screenshot);
       }
-    }
+      clientManager.addTask({
+        id,
+        sourceClient: clientId,
+        element: payload.element,
+        ...(payload.elements && payload.elements.length > 1 && { elements: payload.elements }),
+        ...(payload.region && { region: payload.region }),
+        ...(screenshot && {
+          screenshot: { mimeType: screenshot.mimeType, width: screenshot.width, height: screenshot.height },
+        }),
+        userNote: payload.userNote,
+        ...getTaskTriage(payload),
+        timestamp: Date.now(),
+      });
+      return { id };
+    },
+    peekPendingTasks() {
+      return clientManager.peekPendingTasks();
+    },
+    getTaskDashboard() {
+      return clientManager.getTaskDashboard();
+    },
+    prepareTaskCompletionApproval(taskId: string) {
+      return clientManager.createCompletionApproval(taskId);
+    },
+    reopenTask(taskId: string, reason?: string) {
+      return clientManager.reopenTask(taskId, reason, clientId);
+    },
+    cancelTask(taskId: string) {
+      return clientManager.cancelTask(taskId, clientId);
+    },
+    answerTaskQuestion(taskId: string, questionId: string, answer: string) {
+      return clientManager.answerTaskQuestion(taskId, questionId, answer);
+    },
+    getAuditLog(query?: AuditLogQuery) {
+      return getAuditLog(query);
+    },
+    async storageGetItem(namespace: string, key: string) {
+      return getPluginStorage(namespace).getItem(key);
+    },
+    async storageSetItem(namespace: string, key: string, value: any) {
+      await getPluginStorage(namespace).setItem(key, value);
+    },
+    async storageRemoveItem(namespace: string, key: string) {
+      await getPluginStorage(namespace).removeItem(key);
+    },
+    async storageGetKeys(namespace: string, base?: string) {
+      return getPluginStorage(namespace).getKeys(base);
+    },
+    async storageHasItem(namespace: string, key: string) {
+      return getPluginStorage(namespace).hasItem(key);
+    },
+    async storageClear(namespace: string, base?: string) {
+      await getPluginStorage(namespace).clear(base);
+    },
+    // Inject all plugin methods
+    ...allPluginMethods,
+  };
 
-    const serverFunctions: ServerFunctions = {
-      ping() {
-        return 'pong';
-      },
-      updateClientInfo(info) {
-        clientManager.updateClientInfo(clientId, info);
-      },
-      submitTask(payload: TaskSubmitPayload) {
-        const id = uniqueId('task_');
-        clientManager.addTask({
-          id,
-          sourceClient: clientId,
-          element: payload.element,
-          userNote: payload.userNote,
-          timestamp: Date.now(),
-        });
-        return { id };
-      },
-      peekPendingTasks() {
-        return clientManager.peekPendingTasks();
+  const rpc = createBirpc<ClientFunctions, ServerFunctions>(
+    serverFunctions,
+    {
+      post: data => ws.send(data),
+      on: fn => ws.on('message', fn),
+      serialize: v => JSON.stringify(v),
+      deserialize: v => JSON.parse(String(v)),
+      timeout: rpcTimeout,
+      // A tab paused in the debugger never answers; fail the call instead of hanging the agent
+      onTimeoutError(method) {
+        throw new RpcError('timeout', `Client ${clientId} did not answer "${method}" within ${rpcTimeout}ms`, method);
       },
-      getTaskDashboard() {
-        return clientManager.getTaskDashboard();
-      },
-      prepareTaskCompletionApproval(taskId: string) {
-        return clientManager.createCompletionApproval(taskId);
-      },
-      async storageGetItem(namespace: string, key: string) {
-        return getPluginStorage(namespace).getItem(key);
-      },
-      async storageSetItem(namespace: string, key: string, value: any) {
-        await getPluginStorage(namespace).setItem(key, value);
-      },
-      async storageRemoveItem(namespace: string, key: string) {
-        await getPluginStorage(namespace).removeItem(key);
-      },
-      async storageGetKeys(namespace: string, base?: string) {
-        return getPluginStorage(namespace).getKeys(base);
-      },
-      async storageHasItem(namespace: string, key: string) {
-        return getPluginStorage(namespace).hasItem(key);
-      },
-      async storageClear(namespace: string, base?: string) {
-        await getPluginStorage(namespace).clear(base);
-      },
-      // Inject all plugin methods
-      ...allPluginMethods,
-    };
-
-    const rpc = createBirpc<ClientFunctions, ServerFunctions>(
-      serverFunctions,
-      {
-        post: data => ws.send(data),
-        on: fn => ws.on('message', fn),
-        serialize: v => JSON.stringify(v),
-        deserialize: v => JSON.parse(String(v)),
-      },
-    );
+    },
+  );
 
-    clientManager.addClient(clientId, ws, rpc);
+  clientManager.addClient(clientId, ws, rpc);
 
-    ws.send(JSON.stringify({ type: 'connected', clientId }));
+  ws.send(JSON.stringify({ type: 'connected', clientId }));
 
-    ws.on('close', () => {
-      clientManager.removeClient(clientId);
-    });
+  const detach = () => {
+    if (!rpc.$closed) {
+      rpc.$close(new RpcError('disconnected', `Client ${clientId} disconnected`));
+    }
+    clientManager.removeClient(clientId, ws);
+  };
+  ws.on('close', detach);
+  ws.on('error', detach);
+}
 
-    ws.on('error', () => {
-      clientManager.removeClient(clientId);
-    });
+/** Whether `ws` answers a ping within `timeout`; a socket that closes meanwhile does not */
+function answersPing(ws: WebSocket, timeout: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(finish, timeout, false);
+    const onPong = (): void => finish(true);
+    const onClose = (): void => finish(false);
+    ws.once('pong', onPong);
+    ws.once('close', onClose);
+    ws.ping();
+
+    function finish(answered: boolean): void {
+      clearTimeout(timer);
+      ws.off('pong', onPong);
+      ws.off('close', onClose);
+      resolve(answered);
+    }
+  });
+}
+
+/**
+ * A reloaded tab offers the id of the page it unloaded, whose socket may still be open
+ * That socket is dropped when it misses a heartbeat, so `resolveClientId` hands its id over. A holder that
+ * answers is another live tab, e.g. a duplicate that copied the unload mark with sessionStorage, and keeps the id
+ */
+async function dropUnloadedHolder(req: IncomingMessage): Promise<void> {
+  if (!hasWsProtocol(req, WS_RELOAD_PROTOCOL)) {
+    return;
+  }
+  const requested = getWsProtocolValue(req, WS_CLIENT_PROTOCOL_PREFIX);
+  const holder = requested
+    ? clientManager.getClient(requested)?.ws
+    : undefined;
+  if (!holder || holder.readyState !== holder.OPEN) {
+    return;
+  }
+  if (!await answersPing(holder, Math.min(rpcTimeout, HOLDER_PING_TIMEOUT))) {
+    holder.terminate();
+  }
+}
+
+/**
+ * @param getBindHost - Address the socket is served on, for the Host and Origin checks
+ */
+function createWebSocketServer(
+  options: Pick<ServerOptions, 'port' | 'host' | 'noServer'>,
+  getBindHost: () => string,
+): WebSocketServer {
+  const server = new WebSocketServer({
+    ...options,
+    verifyClient: ({ req }, done) => {
+      const bindHost = getBindHost();
+      if (!isAllowedHost(req, bindHost) || !isAllowedWsOrigin(req, bindHost, allowedOrigins)) {
+        done(false, 403, 'Forbidden');
+        return;
+      }
+      if (!verifyAuthToken(getWsProtocolToken(req))) {
+        done(false, 401, 'Unauthorized');
+        return;
+      }
+      dropUnloadedHolder(req).then(() => done(true), () => done(true));
+    },
+    handleProtocols: protocols => protocols.has(WS_PROTOCOL)
+      ? WS_PROTOCOL
+      : false,
   });
+  server.on('connection', handleConnection);
+  return server;
+}
+
+/**
+ * Standalone server on its own port; dev servers that cannot be attached to proxy `WS_PROXY_PATH` here
+ */
+export function startWebSocketServer(
+  port: number,
+  host: string = 'localhost',
+  timeout: number = DEFAULT_RPC_TIMEOUT,
+  origins: string[] = [],
+): WebSocketServer {
+  if (wss) {
+    return wss;
+  }
+  rpcTimeout = timeout;
+  allowedOrigins = origins;
+
+  wss = createWebSocketServer({ port, host }, () => host);
 
   wss.on('listening', () => {
-    console.warn(`[unplugin-devpilot] WebSocket server listening on port ${port} (accessible via ws://<host>:${port})`);
+    console.warn(`[unplugin-devpilot] WebSocket server listening on ws://${host}:${port}`);
   });
 
   return wss;
 }
 
+/**
+ * Keep upgrade listeners the dev server registered earlier away from `WS_PROXY_PATH`
+ * Farm's HMR listener logs an error for every upgrade it does not own, and Nuxt's closes them;
+ * a leftover `getProxyConfig()` entry would proxy the socket to a port that is no longer opened
+ */
+export function reserveUpgradePath(server: ReservableServer): void {
+  for (const listener of server.listeners('upgrade') as Array<(...args: any[]) => void>) {
+    server.off('upgrade', listener);
+    server.on('upgrade', function (this: unknown, req: IncomingMessage, ...rest: any[]) {
+      if (!isProxyPath(req)) {
+        listener.call(this, req, ...rest);
+      }
+    });
+  }
+}
+
+function detachUpgradeListener(): void {
+  if (upgradeTarget) {
+    upgradeTarget.server.off('upgrade', upgradeTarget.listener);
+    upgradeTarget = null;
+  }
+}
+
+/** Address the attached dev server listens on; `host` when it does not report one (e.g. a pipe) */
+function getAttachedHost(): string {
+  if (!upgradeTarget) {
+    return 'localhost';
+  }
+  const address = upgradeTarget.server.address?.();
+  return address && typeof address === 'object'
+    ? address.address
+    : upgradeTarget.host;
+}
+
+/**
+ * Serve `WS_PROXY_PATH` on the dev server's own HTTP server (`noServer` mode), without a second port or proxy
+ * Calling it again with another server (e.g. after a Vite restart) moves the listener and keeps connected tabs
+ * @param host - Fallback for the Host and Origin checks when the dev server does not report its address
+ */
+export function attachWebSocketServer(
+  server: UpgradeableServer,
+  timeout: number = DEFAULT_RPC_TIMEOUT,
+  host = 'localhost',
+  origins: string[] = [],
+): WebSocketServer {
+  if (!wss) {
+    rpcTimeout = timeout;
+    allowedOrigins = origins;
+    wss = createWebSocketServer({ noServer: true }, getAttachedHost);
+  }
+  const target = wss;
+  detachUpgradeListener();
+  const listener: UpgradeListener = (req, socket, head) => {
+    // Other upgrade requests (HMR, user proxies) belong to the dev server
+    if (!isProxyPath(req)) {
+      return;
+    }
+    target.handleUpgrade(req, socket, head, ws => target.emit('connection', ws, req));
+  };
+  server.on('upgrade', listener);
+  upgradeTarget = { server, listener, host };
+  return wss;
+}
+
 export function stopWebSocketServer(): Promise<void> {
+  detachUpgradeListener();
   return new Promise((resolve) => {
     if (wss) {
       const server = wss;
@@ -0,0 +1,26 @@
+/**
+ * This entry file is for esbuild plugin.
+ *
+ * @module
+ */
+
+import { unpluginDevpilot } from './index';
+
+/**
+ * esbuild plugin
+ *
+ * @example
+ * ```js
+ * // build.js
+ * import { context } from 'esbuild'
+ * import devpilot from 'unplugin-devpilot/esbuild'
+ *
+ * const ctx = await context({
+ *   plugins: [devpilot()],
+ * })
+ * await ctx.watch()
+ * ```
+ */
+const esbuild = unpluginDevpilot.esbuild as typeof unpluginDevpilot.esbuild;
+export default esbuild;
+export { esbuild as 'module.exports' };
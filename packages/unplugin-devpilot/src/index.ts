@@ -1,33 +1,24 @@
 import type { UnpluginInstance } from 'unplugin';
 import type { DevpilotPlugin, Options, OptionsResolved } from './core/options';
+import type { UpgradeableServer } from './core/ws-server';
 import process from 'node:process';
 import { createUnplugin } from 'unplugin';
+import { getAuthToken, resolveConnectHost } from './core/auth';
 import { injectSourceLocation } from './core/code-location-injector';
 import { WS_PROXY_PATH } from './core/constants';
-import { registerPluginMcpRegisterMethods, startMcpServer, stopMcpServer } from './core/mcp-server';
+import { getFarmHttpServer } from './core/farm';
 import { resolveOptions } from './core/options';
-import { generateCoreSkill } from './core/skill-generator';
-import { disposeStorage, getPluginStorage } from './core/storage';
-import { registerPluginServerMethods, startWebSocketServer, stopWebSocketServer } from './core/ws-server';
+import { isDevEnvironment, isTestEnvironment, startServers, stopServers } from './core/servers';
+import { getPluginStorage } from './core/storage';
+import { reserveUpgradePath } from './core/ws-server';
 
 const VIRTUAL_MODULE_ID = 'virtual:devpilot-client';
 const RESOLVED_VIRTUAL_MODULE_ID = '\0virtual:devpilot-client';
 
-/**
- * Check if running in test environment
- * Vitest sets: VITEST, TEST, NODE_ENV=test; Jest sets JEST_WORKER_ID; npm test sets npm_lifecycle_event=test
- */
-function isTestEnvironment(): boolean {
-  return !!(
-    process.env.VITEST
-    || process.env.TEST
-    || process.env.NODE_ENV === 'test'
-    || process.env.JEST_WORKER_ID
-    || process.env.npm_lifecycle_event === 'test'
-  );
-}
-
-function getPluginClientModules(plugins: DevpilotPlugin[], options: OptionsResolved): string[] {
+function getPluginClientModules(
+  plugins: DevpilotPlugin[],
+  options: OptionsResolved,
+): Array<{ namespace: string, module: string }> {
   return plugins
     .filter(p => p.clientModule)
     .map((p) => {
@@ -35,11 +26,14 @@ function getPluginClientModules(plugins: DevpilotPlugin[], options: OptionsResol
       const mod = typeof p.clientModule === 'function'
         ? p.clientModule(ctx)
         : p.clientModule!;
-      return mod;
+      return { namespace: p.namespace, module: mod };
     });
 }
 
-function generateVirtualClientModule(options: OptionsResolved, isDev: boolean): string {
+/**
+ * @param directWs - Whether the page connects to `wsPort` itself, because no dev server serves `WS_PROXY_PATH`
+ */
+function generateVirtualClientModule(options: OptionsResolved, isDev: boolean, directWs: boolean): string {
   // In non-dev mode or test mode, return empty module
   if (!isDev || isTestEnvironment()) {
     return '';
@@ -48,12 +42,14 @@ function generateVirtualClientModule(options: OptionsResolved, isDev: boolean):
   const pluginModules = getPluginClientModules(options.plugins, options);
 
   // Generate dynamic imports for all plugin modules (namespace import for safe optional access)
-  const importStatements = pluginModules.map((mod, index) =>
-    `import * as plugin_${index} from '${mod}';`,
+  const importStatements = pluginModules.map(({ module }, index) =>
+    `import * as plugin_${index} from '${module}';`,
   ).join('\n');
 
-  // Generate code to collect all handlers
-  const handlerCollection = pluginModules.map((_, index) => `  ...plugin_${index}.rpcHandlers,`).join('\n');
+  // Generate code to collect each plugin's handlers under its namespace
+  const handlerCollection = pluginModules.map(({ namespace }, index) =>
+    `    ${JSON.stringify(namespace)}: plugin_${index}.rpcHandlers || {},`,
+  ).join('\n');
 
   // Generate code to register task payload hooks from plugins
   const hookRegistrations = pluginModules.map((_, index) =>
@@ -66,85 +62,77 @@ import { initDevpilot, mountDevpilotTaskUi, registerTaskPayloadHook } from 'unpl
 
 export const wsPort = ${options.wsPort};
 export const client = initDevpilot({
-  rpcHandlers: {
+  token: ${JSON.stringify(getAuthToken())},
+  rpcTimeout: ${options.rpcTimeout},${directWs
+    ? `\n  wsPort: ${options.wsPort},`
+    : ''}
+  pluginRpcHandlers: {
 ${handlerCollection}
-  }
+  },
 });
 ${hookRegistrations}
 mountDevpilotTaskUi(client);
 `;
 }
 
-let serversStarted = false;
-let lastOptions: OptionsResolved | null = null;
-
-async function startServers(rawOptions: Options) {
-  const options = await resolveOptions(rawOptions);
-  lastOptions = options;
-  registerPluginServerMethods(options.plugins);
-  registerPluginMcpRegisterMethods(options.plugins);
-  if (!serversStarted) {
-    serversStarted = true;
-    startWebSocketServer(options.wsPort);
-    await startMcpServer(options.mcpPort);
-  }
-  await generateCoreSkill(options, process.env.NODE_ENV !== 'production');
-  return options;
-}
+const STANDALONE_WS_FRAMEWORKS = new Set(['rollup', 'rolldown', 'esbuild']);
 
-async function stopServers() {
-  if (!serversStarted) { return; }
-  serversStarted = false;
-  await Promise.all([
-    stopWebSocketServer(),
-    stopMcpServer(),
-  ]);
-  if (lastOptions) {
-    await generateCoreSkill(lastOptions, false);
-  }
-  await disposeStorage();
+/** Part of the Rollup/Rolldown plugin context used here */
+interface WatchAwareContext {
+  meta: { watchMode: boolean }
 }
 
-export const unpluginDevpilot: UnpluginInstance<Options | undefined, false>
-  = createUnplugin((rawOptions = {}) => {
+/**
+ * @param adapter - For the Next.js and Nuxt adapters, which start the servers themselves once per process and
+ * wire the WebSocket into their own dev server; the bundler hooks then only resolve options
+ * @internal
+ */
+export function createDevpilotUnplugin(adapter: boolean = false): UnpluginInstance<Options | undefined, false> {
+  return createUnplugin((rawOptions = {}, meta) => {
     let options: OptionsResolved | null = null;
     let isDevServer = false;
+    /** esbuild reports the end of its watch/serve context through `onDispose`, not `buildEnd` */
+    let stopOnDispose = false;
+    /** These bundlers have no dev server that could serve `WS_PROXY_PATH` */
+    const directWs = STANDALONE_WS_FRAMEWORKS.has(meta.framework);
+    let warnedManualImport = false;
     /** Set from Vite `config` hook; `vite build` is always `command === 'build'` even when mode/env is non-production. */
     let viteCommand: 'build' | 'serve' | undefined;
 
     const name = 'unplugin-devpilot';
 
-    /** WS/MCP only for local dev; skip tests, production NODE_ENV, npm `build` script, and Vite `vite build`. */
+    /** WS/MCP only for local dev; also skip Vite `vite build`. */
     function shouldStartDevServers(): boolean {
-      if (isTestEnvironment()) {
-        return false;
-      }
-      if (process.env.NODE_ENV === 'production') {
-        return false;
-      }
-      if (process.env.npm_lifecycle_event === 'build') {
-        return false;
-      }
-      if (viteCommand === 'build') {
-        return false;
-      }
-      return true;
+      return isDevEnvironment() && viteCommand !== 'build';
     }
 
-    async function ensureServersStarted(): Promise<OptionsResolved | null> {
+    /** `injectClient` only applies to dev builds; the virtual module is empty otherwise */
+    function shouldInjectClient(mode?: string): boolean {
+      return rawOptions.injectClient === true && mode !== 'production' && shouldStartDevServers();
+    }
+
+    async function ensureServersStarted(devServer?: UpgradeableServer): Promise<OptionsResolved | null> {
       if (options) { return options; }
       if (!shouldStartDevServers()) {
         return null;
       }
-      options = await startServers(rawOptions);
+      options = adapter
+        ? await resolveOptions(rawOptions)
+        : await startServers(rawOptions, devServer, meta.framework);
       return options;
     }
 
     return {
       name,
 
-      resolveId(id) {
+      resolveId(id, importer) {
         if (id === VIRTUAL_MODULE_ID) {
+          // The injected client is an entry (webpack) or imported by index.html (Vite); any other importer is manual.
+          // Both resolve to the same module, so the client still runs once
+          if (rawOptions.injectClient && importer && !importer.includes('.html') && !warnedManualImport) {
+            warnedManualImport = true;
+            console.warn(`[unplugin-devpilot] \`injectClient\` already adds the client; the \`import '${VIRTUAL_MODULE_ID}'\` in ${importer} can be removed.`);
+          }
           return RESOLVED_VIRTUAL_MODULE_ID;
         }
       },
@@ -162,7 +150,7 @@ export const unpluginDevpilot: UnpluginInstance<Options | undefined, false>
           if (!options) {
             options = await resolveOptions(rawOptions);
           }
-          return generateVirtualClientModule(options, shouldStartDevServers());
+          return generateVirtualClientModule(options, shouldStartDevServers(), directWs);
         }
       },
 
@@ -192,45 +180,81 @@ export const unpluginDevpilot: UnpluginInstance<Options | undefined, false>
       },
 
       buildEnd() {
-        if (isDevServer) { return; }
+        if (isDevServer || stopOnDispose || adapter) { return; }
         return stopServers();
       },
 
+      // Watch rebuilds reuse the running servers; they stop when the watcher closes
+      rollup: {
+        buildEnd(this: WatchAwareContext) {
+          if (this.meta.watchMode) { return; }
+          return stopServers();
+        },
+        closeWatcher() {
+          return stopServers();
+        },
+      },
+
+      rolldown: {
+        buildEnd(this: WatchAwareContext) {
+          if (this.meta.watchMode) { return; }
+          return stopServers();
+        },
+        closeWatcher() {
+          return stopServers();
+        },
+      },
+
+      esbuild: {
+        setup(build) {
+          stopOnDispose = true;
+          // Runs once a one-off build is done, or when a watch/serve context is disposed
+          build.onDispose(() => {
+            stopServers().catch((error) => {
+              console.error('[unplugin-devpilot] Failed to stop servers:', error);
+            });
+          });
+        },
+      },
+
       vite: {
         config(_userConfig, env) {
           viteCommand = env.command;
         },
+        transformIndexHtml: {
+          // Before Vite's own HTML processing, which turns the inline import into a served module
+          order: 'pre',
+          handler() {
+            if (!shouldInjectClient()) { return; }
+            return [{
+              tag: 'script',
+              attrs: { type: 'module' },
+              children: `import '${VIRTUAL_MODULE_ID}';`,
+              injectTo: 'head-prepend',
+            }];
+          },
+        },
         async configureServer(server) {
           if (!shouldStartDevServers()) { return; }
           isDevServer = true;
-          const opts = await ensureServersStarted();
-          if (!opts) { return; }
-
-          // Auto-configure WebSocket proxy
-          const wsUrl = `ws://localhost:${opts.wsPort}`;
-          const httpProxyModule = await import('http-proxy');
-          const proxy = (httpProxyModule.default || httpProxyModule).createProxyServer({
-            target: wsUrl,
-            ws: true,
-            changeOrigin: true,
-          });
-
-          // Handle WebSocket upgrade for proxy
-          server.httpServer?.on('upgrade', (req, socket, head) => {
-            if (req.url === WS_PROXY_PATH) {
-              proxy.ws(req, socket, head);
-            }
-          });
+          // Serve the WebSocket on Vite's own server; middleware mode has none, so fall back to `wsPort`
+          await ensureServersStarted(server.httpServer ?? undefined);
         },
       },
 
       webpack(compiler) {
+        // Webpack builds in production mode when `mode` is unset
+        if (shouldInjectClient(compiler.options.mode ?? 'production')) {
+          // No name: added to every entry, sharing their runtime so a manual import is the same module
+          new compiler.webpack.EntryPlugin(compiler.context, VIRTUAL_MODULE_ID, { name: undefined }).apply(compiler);
+        }
         // Configure dev server proxy before run
         compiler.hooks.beforeRun.tapPromise(name, async () => {
           if (!shouldStartDevServers()) { return; }
           isDevServer = true;
           const opts = await ensureServersStarted();
-          if (!opts) { return; }
+          // Adapters wire the WebSocket into their own dev server
+          if (!opts || adapter) { return; }
 
           // Inject proxy config into devServer options
           compiler.options.devServer = compiler.options.devServer || {};
@@ -239,7 +263,7 @@ export const unpluginDevpilot: UnpluginInstance<Options | undefined, false>
           // Handle different proxy configurations
           const proxyConfig = {
             context: WS_PROXY_PATH,
-            target: `ws://localhost:${opts.wsPort}`,
+            target: `ws://${resolveConnectHost(opts.host)}:${opts.wsPort}`,
             ws: true,
             changeOrigin: true,
           };
@@ -278,17 +302,22 @@ export const unpluginDevpilot: UnpluginInstance<Options | undefined, false>
           await ensureServersStarted();
         });
         compiler.hooks.shutdown?.tap(name, () => {
-          stopServers();
+          if (!adapter) {
+            stopServers();
+          }
         });
       },
 
       rspack(compiler) {
+        if (shouldInjectClient(compiler.options.mode ?? 'production')) {
+          new compiler.webpack.EntryPlugin(compiler.context, VIRTUAL_MODULE_ID, { name: undefined }).apply(compiler);
+        }
         // Configure dev server proxy before run
         compiler.hooks.beforeRun.tapPromise(name, async () => {
           if (!shouldStartDevServers()) { return; }
           isDevServer = true;
           const opts = await ensureServersStarted();
-          if (!opts) { return; }
+          if (!opts || adapter) { return; }
 
           compiler.options.devServer = compiler.options.devServer || {};
           const devServer = compiler.options.devServer as Record<string, any>;
@@ -296,7 +325,7 @@ export const unpluginDevpilot: UnpluginInstance<Options | undefined, false>
           // Handle different proxy configurations
           const proxyConfig = {
             context: WS_PROXY_PATH,
-            target: `ws://localhost:${opts.wsPort}`,
+            target: `ws://${resolveConnectHost(opts.host)}:${opts.wsPort}`,
             ws: true,
             changeOrigin: true,
           };
@@ -335,25 +364,35 @@ export const unpluginDevpilot: UnpluginInstance<Options | undefined, false>
           await ensureServersStarted();
         });
         compiler.hooks.shutdown?.tap(name, () => {
-          stopServers();
+          if (!adapter) {
+            stopServers();
+          }
         });
       },
 
       farm: {
-        async configureDevServer() {
+        async configureDevServer(server) {
           if (!shouldStartDevServers()) { return; }
           isDevServer = true;
-          const opts = await ensureServersStarted();
-          if (!opts) { return; }
+          const httpServer = getFarmHttpServer(server);
+          if (httpServer) {
+            reserveUpgradePath(httpServer);
+          }
+          const opts = await ensureServersStarted(httpServer);
+          if (!opts || httpServer) { return; }
 
+          // Without access to Farm's server, the page can only reach the standalone port through a manual proxy
+          const proxyArgs = opts.host === 'localhost'
+            ? String(opts.wsPort)
+            : `${opts.wsPort}, '${resolveConnectHost(opts.host)}'`;
           console.warn(`[unplugin-devpilot] Farm dev server proxy requires manual configuration.
 Add the following to your farm.config.ts:
 
-import { getProxyConfig } from 'unplugin-devpilot/farm'
+import { getProxyConfig } from 'unplugin-devpilot'
 
 export default defineConfig({
   server: {
-    proxy: getProxyConfig(${opts.wsPort})
+    proxy: getProxyConfig(${proxyArgs})
   },
   plugins: [Devpilot()]
 })`);
@@ -361,19 +400,26 @@ export default defineConfig({
       },
     };
   });
+}
+
+export const unpluginDevpilot: UnpluginInstance<Options | undefined, false> = createDevpilotUnplugin();
 
 process.on('beforeExit', () => {
   stopServers();
 });
 
 export { clientManager } from './core/client-manager';
-export type { DevpilotPlugin, Options } from './core/options';
+export { notifyMcpResourceUpdated } from './core/mcp-server';
 export default unpluginDevpilot;
-export type { DevpilotPluginContext, McpToolRegister } from './core/plugin';
+export type { DevpilotPlugin, Options } from './core/options';
+export type { DevpilotPluginContext, McpResourceConfig, McpResourceRegister, McpToolRegister } from './core/plugin';
 export { resolveClientModule } from './core/plugin';
-export { defineMcpToolRegister, type McpToolResolved } from './core/plugin/mcp';
+export { getPluginRpcMethod, type PluginRpcFunctions } from './core/plugin-rpc';
+export { defineMcpResourceRegister, defineMcpToolRegister, jsonResourceContents, type McpToolResolved } from './core/plugin/mcp';
+export { isRpcError, RpcError, type RpcErrorCode } from './core/rpc-error';
 export { resolveSkillModule } from './core/skill-generator';
-export { getPluginStorage, storage } from './core/storage';
+export { getPluginStorage, storage, type StorageOption, type StoragePreset, type StoragePresetOptions } from './core/storage';
+export type { ToolPolicy, ToolPolicyAction } from './core/tool-policy';
 export * from './core/types';
 export { resolveModule } from './core/utils';
 
@@ -382,6 +428,7 @@ export { resolveModule } from './core/utils';
  * Use this to configure dev server proxy for WSS support
  *
  * @param wsPort - The WebSocket server port (from resolved options)
+ * @param host - Host the WebSocket server is reachable on (see `Options.host`)
  * @returns Proxy configuration object for Vite/Webpack/Rspack
  *
  * @example
@@ -399,10 +446,11 @@ export { resolveModule } from './core/utils';
  */
 export function getProxyConfig(
   wsPort: number,
+  host: string = 'localhost',
 ): Record<string, { target: string, ws: boolean, changeOrigin: boolean }> {
   return {
     [WS_PROXY_PATH]: {
-      target: `ws://localhost:${wsPort}`,
+      target: `ws://${host}:${wsPort}`,
       ws: true,
       changeOrigin: true,
     },
@@ -411,15 +459,20 @@ export function getProxyConfig(
 
 /**
  * Create a proxy middleware for WebSocket support
- * Use this for dev servers that accept Connect-style middleware (e.g., Farm)
+ * Use this for dev servers that accept Connect-style middleware
+ *
+ * @deprecated WebSocket upgrades never pass through middleware, so this only proxies plain HTTP requests to
+ * `WS_PROXY_PATH`. Farm is wired automatically; for other servers, proxy `WS_PROXY_PATH` with `getProxyConfig`.
  *
  * @param wsPort - The WebSocket server port
+ * @param host - Host the WebSocket server is reachable on (see `Options.host`)
  * @returns Connect-style middleware function
  *
  * @example
  * ```ts
  * // farm.config.ts
- * import Devpilot, { createProxyMiddleware } from 'unplugin-devpilot/farm'
+ * import { createProxyMiddleware } from 'unplugin-devpilot'
+ * import Devpilot from 'unplugin-devpilot/farm'
  *
  * export default defineConfig({
  *   plugins: [Devpilot()],
@@ -433,27 +486,17 @@ export function getProxyConfig(
  */
 export async function createProxyMiddleware(
   wsPort: number,
+  host: string = 'localhost',
 ): Promise<(req: any, res: any, next: any) => void> {
   const httpProxyModule = await import('http-proxy');
   const httpProxy = httpProxyModule.default || httpProxyModule;
   const proxy = httpProxy.createProxyServer({
-    target: `ws://localhost:${wsPort}`,
+    target: `ws://${host}:${wsPort}`,
     ws: true,
     changeOrigin: true,
   });
 
   return (req: any, res: any, next: any) => {
-    // Handle WebSocket upgrade
-    if (req.headers.upgrade === 'websocket' && req.url === WS_PROXY_PATH) {
-      // The upgrade event will be handled by the server's upgrade listener
-      // We need to attach the proxy to the request for the upgrade handler
-      (req as any)._devpilotProxy = proxy;
-      (req as any)._devpilotWsPath = WS_PROXY_PATH;
-      next();
-      return;
-    }
-
-    // Handle HTTP request (should not happen for WebSocket)
     if (req.url === WS_PROXY_PATH) {
       proxy.web(req, res);
       return;
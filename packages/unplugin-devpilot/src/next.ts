@@ -0,0 +1,100 @@
+/**
+ * This entry file is for Next.js.
+ *
+ * @module
+ */
+
+import type { Options } from './index';
+import process from 'node:process';
+import { resolveConnectHost } from './core/auth';
+import { WS_PROXY_PATH } from './core/constants';
+import { isDevEnvironment, startServers } from './core/servers';
+import { createDevpilotUnplugin } from './index';
+
+export interface NextRewrite {
+  source: string
+  destination: string
+  [key: string]: unknown
+}
+
+export interface NextRewritesObject {
+  beforeFiles?: NextRewrite[]
+  afterFiles?: NextRewrite[]
+  fallback?: NextRewrite[]
+}
+
+/** Part of the context Next.js passes to `webpack()` */
+export interface NextWebpackContext {
+  dev: boolean
+  isServer: boolean
+  [key: string]: unknown
+}
+
+/** Part of `next.config` used here */
+export interface NextConfig {
+  webpack?: ((config: any, context: NextWebpackContext) => any) | null
+  rewrites?: () => Promise<NextRewrite[] | NextRewritesObject>
+  [key: string]: unknown
+}
+
+/**
+ * Next.js config wrapper
+ *
+ * Adds the plugin to the client compiler in `next dev` only, so server and edge bundles get no source locations,
+ * starts the WebSocket and MCP servers once, and rewrites `WS_PROXY_PATH` on Next's server to the WebSocket server.
+ * The client is added to every page unless `injectClient` is `false`. Turbopack is not supported and logs a warning
+ *
+ * @example
+ * ```ts
+ * // next.config.ts
+ * import { withDevpilot } from 'unplugin-devpilot/next'
+ *
+ * export default withDevpilot({
+ *   reactStrictMode: true,
+ * })
+ * ```
+ */
+export function withDevpilot<T extends NextConfig>(nextConfig: T = {} as T, options: Options = {}): T {
+  const pluginOptions: Options = { ...options, injectClient: options.injectClient ?? true };
+  const unplugin = createDevpilotUnplugin(true);
+  // Next.js sets this for `next dev --turbopack` before it loads the config
+  if (process.env.TURBOPACK && isDevEnvironment()) {
+    console.warn('[unplugin-devpilot] Turbopack is not supported, so pages get no client or source locations. Run `next dev` without `--turbopack`.');
+  }
+
+  return {
+    ...nextConfig,
+    webpack(config: any, context: NextWebpackContext) {
+      if (context.dev && !context.isServer) {
+        config.plugins = config.plugins || [];
+        config.plugins.push(unplugin.webpack(pluginOptions));
+      }
+      return typeof nextConfig.webpack === 'function'
+        ? nextConfig.webpack(config, context)
+        : config;
+    },
+    async rewrites() {
+      const rewrites = await nextConfig.rewrites?.();
+      if (!isDevEnvironment()) {
+        return rewrites ?? [];
+      }
+      // Next.js loads its config before compiling, so the servers run before the first page connects
+      const resolved = await startServers(options, undefined, 'webpack');
+      const normalized: NextRewritesObject = Array.isArray(rewrites)
+        ? { afterFiles: rewrites }
+        : { ...rewrites };
+      return {
+        ...normalized,
+        beforeFiles: [
+          {
+            source: WS_PROXY_PATH,
+            destination: `http://${resolveConnectHost(resolved.host)}:${resolved.wsPort}${WS_PROXY_PATH}`,
+          },
+          ...normalized.beforeFiles ?? [],
+        ],
+      };
+    },
+  };
+}
+
+export default withDevpilot;
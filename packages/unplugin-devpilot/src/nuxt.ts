@@ -0,0 +1,77 @@
+/**
+ * This entry file is for Nuxt module.
+ *
+ * @module
+ */
+
+import type { NuxtModule } from '@nuxt/schema';
+import type { Options } from './index';
+import { addBuildPlugin, addPluginTemplate, defineNuxtModule } from '@nuxt/kit';
+import { isDevEnvironment, startServers, stopServers } from './core/servers';
+import { reserveUpgradePath } from './core/ws-server';
+import { createDevpilotUnplugin } from './index';
+
+/** `vite` for both `'vite'` and `'@nuxt/vite-builder'`; nothing for a custom builder */
+function getBundler(builder: unknown): string | undefined {
+  return typeof builder === 'string'
+    ? builder.replace(/^@nuxt\/(\w+)-builder$/, '$1')
+    : undefined;
+}
+
+/**
+ * Nuxt module
+ *
+ * Starts the WebSocket and MCP servers once, on Nuxt's dev server, and adds the client and
+ * source locations to the client bundle only
+ *
+ * @example
+ * ```ts
+ * // nuxt.config.ts
+ * export default defineNuxtConfig({
+ *   modules: ['unplugin-devpilot/nuxt'],
+ *   devpilot: {},
+ * })
+ * ```
+ */
+const nuxtModule: NuxtModule<Options> = defineNuxtModule<Options>({
+  meta: {
+    name: 'unplugin-devpilot',
+    configKey: 'devpilot',
+  },
+  setup(options, nuxt) {
+    if (!nuxt.options.dev || !isDevEnvironment()) {
+      return;
+    }
+
+    // The plugin template below imports the client, for Vite and webpack alike
+    const pluginOptions: Options = { ...options, injectClient: false };
+    const unplugin = createDevpilotUnplugin(true);
+    addBuildPlugin({
+      vite: () => unplugin.vite(pluginOptions),
+      webpack: () => unplugin.webpack(pluginOptions),
+      rspack: () => unplugin.rspack(pluginOptions),
+    }, { server: false });
+
+    addPluginTemplate({
+      filename: 'devpilot-client.mjs',
+      mode: 'client',
+      getContents: () => `import 'virtual:devpilot-client';
+import { defineNuxtPlugin } from '#imports';
+export default defineNuxtPlugin(() => {});
+`,
+    });
+
+    nuxt.hook('listen', async (server) => {
+      // Nuxt's own upgrade listener (Vite HMR) closes sockets it does not serve
+      reserveUpgradePath(server);
+      await startServers(options, server, getBundler(nuxt.options.builder));
+    });
+    nuxt.hook('close', async () => {
+      await stopServers();
+    });
+  },
+});
+
+export default nuxtModule;
+// Like the other entries: `require()` of this ESM build (Node's require(esm)) returns the module itself
+export { nuxtModule as 'module.exports' };
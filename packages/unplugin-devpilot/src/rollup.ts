@@ -0,0 +1,24 @@
+/**
+ * This entry file is for Rollup plugin.
+ *
+ * @module
+ */
+
+import { unpluginDevpilot } from './index';
+
+/**
+ * Rollup plugin
+ *
+ * @example
+ * ```js
+ * // rollup.config.js
+ * import devpilot from 'unplugin-devpilot/rollup'
+ *
+ * export default {
+ *   plugins: [devpilot()],
+ * }
+ * ```
+ */
+const rollup = unpluginDevpilot.rollup as typeof unpluginDevpilot.rollup;
+export default rollup;
+export { rollup as 'module.exports' };
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { clearAuditLog, getAuditLog, recordAuditEntry } from '../src/core/audit-log';
+
+function record(tool: string, overrides: Partial<Parameters<typeof recordAuditEntry>[0]> = {}) {
+  return recordAuditEntry({
+    timestamp: Date.now(),
+    tool,
+    args: {},
+    durationMs: 1,
+    success: true,
+    ...overrides,
+  });
+}
+
+describe('audit-log', () => {
+  afterEach(() => {
+    clearAuditLog();
+  });
+
+  it('returns entries newest first, up to the limit', () => {
+    record('a');
+    record('b');
+    record('c');
+    expect(getAuditLog().map(e => e.tool)).toEqual(['c', 'b', 'a']);
+    expect(getAuditLog({ limit: 2 }).map(e => e.tool)).toEqual(['c', 'b']);
+  });
+
+  it('filters by tool, client, session, outcome and time', () => {
+    record('click', { clientId: 'c_1', sessionId: 's_1', timestamp: 1000 });
+    record('click', { clientId: 'c_2', success: false, error: 'boom', timestamp: 2000 });
+    record('list_clients', { sessionId: 's_2', timestamp: 3000 });
+
+    expect(getAuditLog({ tool: 'click' })).toHaveLength(2);
+    expect(getAuditLog({ clientId: 'c_1' }).map(e => e.sessionId)).toEqual(['s_1']);
+    expect(getAuditLog({ sessionId: 's_2' }).map(e => e.tool)).toEqual(['list_clients']);
+    expect(getAuditLog({ success: false }).map(e => e.error)).toEqual(['boom']);
+    expect(getAuditLog({ since: 2000 })).toHaveLength(2);
+  });
+
+  it('redacts typed text and truncates long arguments', () => {
+    const selector = `#${'a'.repeat(300)}`;
+    const entry = record('input_text', { args: { id: 'e1', text: 'hunter2', nested: { token: 'appr_1' }, selector } });
+    expect(entry.args).toEqual({
+      id: 'e1',
+      text: '[redacted, 7 chars]',
+      nested: { token: '[redacted, 6 chars]' },
+      selector: `${selector.slice(0, 200)}… [301 chars]`,
+    });
+    expect(getAuditLog()[0].args.text).toBe('[redacted, 7 chars]');
+  });
+
+  it('keeps a bounded number of entries', () => {
+    for (let i = 0; i < 600; i++) {
+      record(`t${i}`);
+    }
+    expect(getAuditLog({ limit: 1000 })).toHaveLength(500);
+    expect(getAuditLog({ limit: 1 })[0].tool).toBe('t599');
+  });
+});
@@ -0,0 +1,123 @@
+import type { IncomingMessage } from 'node:http';
+import { getRandomPort } from 'get-port-please';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import {
+  getAuthToken,
+  getWsProtocolToken,
+  getWsProtocolValue,
+  isAllowedHost,
+  isAllowedMcpOrigin,
+  isAllowedWsOrigin,
+  resolveConnectHost,
+  verifyAuthToken,
+} from '../src/core/auth';
+import { WS_AUTH_PROTOCOL_PREFIX, WS_CLIENT_PROTOCOL_PREFIX, WS_PROTOCOL } from '../src/core/constants';
+import { startWebSocketServer, stopWebSocketServer } from '../src/core/ws-server';
+
+function request(headers: Record<string, string>): IncomingMessage {
+  return { headers } as IncomingMessage;
+}
+
+describe('auth', () => {
+  it('keeps one token per process', () => {
+    expect(getAuthToken()).toBe(getAuthToken());
+    expect(verifyAuthToken(getAuthToken())).toBe(true);
+    expect(verifyAuthToken('nope')).toBe(false);
+    expect(verifyAuthToken(undefined)).toBe(false);
+  });
+
+  it('accepts loopback hosts and the bound host only', () => {
+    expect(isAllowedHost(request({ host: 'localhost:3101' }), 'localhost')).toBe(true);
+    expect(isAllowedHost(request({ host: '[::1]:3101' }), 'localhost')).toBe(true);
+    expect(isAllowedHost(request({ host: 'attacker.example:3101' }), 'localhost')).toBe(false);
+    expect(isAllowedHost(request({ host: '192.168.1.5:3101' }), '192.168.1.5')).toBe(true);
+    expect(isAllowedHost(request({ host: '192.168.1.5:3101' }), '0.0.0.0')).toBe(true);
+    expect(isAllowedHost(request({}), 'localhost')).toBe(false);
+  });
+
+  it('checks origins', () => {
+    expect(isAllowedMcpOrigin(request({}), 'localhost')).toBe(true);
+    expect(isAllowedMcpOrigin(request({ origin: 'http://localhost:5173' }), 'localhost')).toBe(true);
+    expect(isAllowedMcpOrigin(request({ origin: 'https://evil.example' }), 'localhost')).toBe(false);
+    expect(isAllowedWsOrigin(request({}))).toBe(true);
+    expect(isAllowedWsOrigin(request({ host: 'localhost:60427', origin: 'http://localhost:5173' }))).toBe(true);
+    expect(isAllowedWsOrigin(request({ host: '192.168.1.5:60427', origin: 'http://192.168.1.5:5173' }), '192.168.1.5'))
+      .toBe(true);
+    expect(isAllowedWsOrigin(request({ host: '192.168.1.5:60427', origin: 'http://192.168.1.5:5173' }), '0.0.0.0'))
+      .toBe(false);
+    expect(isAllowedWsOrigin(
+      request({ host: '192.168.1.5:60427', origin: 'http://192.168.1.5:5173' }),
+      '0.0.0.0',
+      ['http://192.168.1.5:5173'],
+    )).toBe(true);
+    expect(isAllowedWsOrigin(request({ host: 'my-app.test', origin: 'https://my-app.test' }), '::', ['my-app.test']))
+      .toBe(true);
+    expect(isAllowedWsOrigin(request({ host: 'localhost:60427', origin: 'https://evil.example' }))).toBe(false);
+    expect(isAllowedWsOrigin(request({ host: 'localhost:60427', origin: 'https://evil.example' }), '0.0.0.0'))
+      .toBe(false);
+    expect(isAllowedWsOrigin(request({ host: 'localhost:60427', origin: 'null' }))).toBe(false);
+  });
+
+  it('rejects a DNS-rebound page on a wildcard bind', () => {
+    // evil.example resolves to this machine, so the page sends its own name as both Host and Origin
+    const rebound = request({ host: 'evil.example:5173', origin: 'http://evil.example:5173' });
+    expect(isAllowedHost(rebound, '::')).toBe(true);
+    expect(isAllowedWsOrigin(rebound, '::')).toBe(false);
+    expect(isAllowedWsOrigin(rebound, '0.0.0.0', ['my-app.test'])).toBe(false);
+  });
+
+  it('reads the token from the WebSocket subprotocols', () => {
+    const header = `${WS_PROTOCOL}, ${WS_AUTH_PROTOCOL_PREFIX}abc, ${WS_CLIENT_PROTOCOL_PREFIX}c_7`;
+    expect(getWsProtocolToken(request({ 'sec-websocket-protocol': header }))).toBe('abc');
+    expect(getWsProtocolValue(request({ 'sec-websocket-protocol': header }), WS_CLIENT_PROTOCOL_PREFIX)).toBe('c_7');
+    expect(getWsProtocolToken(request({ 'sec-websocket-protocol': WS_PROTOCOL }))).toBeNull();
+  });
+
+  it('maps wildcard binds to a loopback address', () => {
+    expect(resolveConnectHost('0.0.0.0')).toBe('127.0.0.1');
+    expect(resolveConnectHost('::')).toBe('[::1]');
+    expect(resolveConnectHost('localhost')).toBe('localhost');
+  });
+});
+
+describe('ws-server authentication', () => {
+  let port: number;
+
+  beforeAll(async () => {
+    port = await getRandomPort();
+    const wss = startWebSocketServer(port);
+    await new Promise(resolve => wss.once('listening', resolve));
+  });
+
+  afterAll(async () => {
+    await stopWebSocketServer();
+  });
+
+  function handshake(protocols: string[], origin?: string): Promise<number | 'open'> {
+    return new Promise((resolve) => {
+      const ws = new WebSocket(`ws://localhost:${port}`, protocols, { origin });
+      ws.on('open', () => {
+        ws.close();
+        resolve('open');
+      });
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+      ws.on('error', () => {});
+    });
+  }
+
+  it('accepts clients that offer the token', async () => {
+    expect(await handshake([WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`], 'http://localhost:5173')).toBe('open');
+  });
+
+  it('rejects clients without a valid token', async () => {
+    expect(await handshake([WS_PROTOCOL])).toBe(401);
+    expect(await handshake([WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}wrong`])).toBe(401);
+  });
+
+  it('rejects opaque and cross-site origins', async () => {
+    expect(await handshake([WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`], 'null')).toBe(403);
+    expect(await handshake([WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`], 'https://evil.example'))
+      .toBe(403);
+  });
+});
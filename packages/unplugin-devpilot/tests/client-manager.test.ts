@@ -1,5 +1,14 @@
+import type { PendingTaskFilter } from '../src/core/types';
+import { createStorage } from 'unstorage';
 import { describe, expect, it } from 'vitest';
 import { ClientManager } from '../src/core/client-manager';
+import { TASK_SCREENSHOT_NAMESPACE } from '../src/core/constants';
+import { getPluginStorage } from '../src/core/storage';
+
+const stubRpc = {
+  notifyTaskUpdate: async () => {},
+  notifyTaskCompleted: async () => {},
+} as any;
 
 const minimalElement = {
   uid: 'dp_x_1',
@@ -48,4 +57,276 @@ describe('clientManager', () => {
     expect(good).toEqual({ ok: true });
     expect(m.getTaskHistory({ status: 'completed' }).some(t => t.id === 'task_done_1')).toBe(true);
   });
+
+  it('restores queue, history and approvals from task storage', async () => {
+    const storage = createStorage();
+    const before = new ClientManager();
+    await before.attachTaskStorage(storage);
+    before.addTask({ id: 'task_p_1', sourceClient: 'c_old', element: minimalElement, timestamp: Date.now() });
+    before.addTask({ id: 'task_p_2', sourceClient: 'c_old', element: minimalElement, timestamp: Date.now() });
+    expect(before.claimTask('task_p_2', { by: 'agent', sessionId: 's_gone' }).ok).toBe(true);
+    const appr = before.createCompletionApproval('task_p_2');
+    await before.flushTaskStorage();
+
+    const after = new ClientManager();
+    await after.attachTaskStorage(storage);
+    expect(after.peekPendingTasks().map(t => t.id)).toEqual(['task_p_1']);
+    expect(after.getTaskHistory({ status: 'in_progress' }).map(t => t.id)).toEqual(['task_p_2']);
+    expect(after.getTask('task_p_2')?.claimedBy).toBeUndefined();
+    if ('token' in appr) {
+      expect(after.completeTaskWithApproval('task_p_2', appr.token)).toEqual({ ok: true });
+    }
+  });
+
+  it('remaps restored sourceClient to the tab that reconnects on the same url', async () => {
+    const storage = createStorage();
+    const before = new ClientManager();
+    await before.attachTaskStorage(storage);
+    before.addClient('c_old', {} as any, stubRpc);
+    before.updateClientInfo('c_old', { url: 'http://localhost:5173/' });
+    before.addTask({ id: 'task_r_1', sourceClient: 'c_old', element: minimalElement, timestamp: Date.now() });
+    expect(before.claimTask('task_r_1').ok).toBe(true);
+    await before.flushTaskStorage();
+
+    const after = new ClientManager();
+    await after.attachTaskStorage(storage);
+    const newId = after.generateClientId();
+    expect(newId).not.toBe('c_old');
+    after.addClient(newId, {} as any, stubRpc);
+    after.updateClientInfo(newId, { url: 'http://localhost:5173/' });
+    expect(after.getTaskHistory({ clientId: newId }).map(t => t.id)).toEqual(['task_r_1']);
+    expect(after.generateTaskId()).not.toBe('task_r_1');
+  });
+
+  it('reattaches a reloaded tab to its previous client id', async () => {
+    const m = new ClientManager();
+    const id = m.resolveClientId();
+    m.addClient(id, {} as any, stubRpc);
+    m.updateClientInfo(id, { url: 'http://localhost:5173/', title: 'App' });
+    m.addTask({ id: 'task_s_1', sourceClient: id, element: minimalElement, timestamp: Date.now() });
+
+    // A duplicated tab offering a live id gets a fresh one
+    expect(m.resolveClientId(id)).not.toBe(id);
+    expect(m.resolveClientId('not an id')).toMatch(/^c_/);
+
+    m.removeClient(id);
+    expect(m.getDetachedClient(id)?.url).toBe('http://localhost:5173/');
+    const waiting = m.waitForClient(id);
+
+    expect(m.resolveClientId(id)).toBe(id);
+    m.addClient(id, {} as any, stubRpc);
+    expect(await waiting).toBeDefined();
+    expect(m.getClient(id)?.info.title).toBe('App');
+    expect(m.getDetachedClient(id)).toBeUndefined();
+    expect(m.getTaskHistory({ clientId: id }).map(t => t.id)).toEqual(['task_s_1']);
+  });
+
+  it('hands the id of a closing socket to the reloaded page of the same tab', () => {
+    const m = new ClientManager();
+    const open = { readyState: 1, CLOSING: 2 } as any;
+    m.addClient('c_tab', open, stubRpc);
+    m.updateClientInfo('c_tab', { url: 'http://localhost:5173/' });
+    expect(m.resolveClientId('c_tab')).not.toBe('c_tab');
+
+    open.readyState = 2;
+    expect(m.resolveClientId('c_tab')).toBe('c_tab');
+    const next = { readyState: 1, CLOSING: 2 } as any;
+    m.addClient('c_tab', next, stubRpc);
+    expect(m.getClient('c_tab')?.info.url).toBe('http://localhost:5173/');
+
+    // The old socket closing afterwards leaves the new connection alone
+    m.removeClient('c_tab', open);
+    expect(m.getClient('c_tab')?.ws).toBe(next);
+  });
+
+  it('stops waiting for a tab that does not come back', async () => {
+    const m = new ClientManager();
+    m.addClient('c_gone', {} as any, stubRpc);
+    m.removeClient('c_gone');
+    expect(await m.waitForClient('c_gone', 10)).toBeUndefined();
+    expect(await m.waitForClient('c_unknown')).toBeUndefined();
+  });
+
+  it('filters clients by what tabs and dev servers report', () => {
+    const m = new ClientManager();
+    m.setProject({ name: 'admin', root: '/repo/apps/admin', bundler: 'vite' });
+    m.addClient('c_phone', {} as any, stubRpc);
+    m.updateClientInfo('c_phone', {
+      url: 'http://localhost:5173/',
+      viewport: { width: 390, height: 844 },
+      devicePixelRatio: 3,
+      colorScheme: 'dark',
+      language: 'en-US',
+      framework: { name: 'vue', version: '3.5.0' },
+    });
+    m.addClient('c_desktop', {} as any, stubRpc);
+    m.updateClientInfo('c_desktop', { url: 'http://localhost:5173/', viewport: { width: 1440, height: 900 } });
+
+    const ids = (filter: Parameters<ClientManager['findClients']>[0]): string[] =>
+      m.findClients(filter).map(c => c.clientId);
+    expect(m.getClient('c_phone')?.info).toMatchObject({ project: 'admin', bundler: 'vite' });
+    expect(ids({ maxViewportWidth: 480 })).toEqual(['c_phone']);
+    expect(ids({ minViewportWidth: 1024 })).toEqual(['c_desktop']);
+    expect(ids({ framework: 'Vue', language: 'en', colorScheme: 'dark', minDevicePixelRatio: 2 })).toEqual(['c_phone']);
+    expect(ids({ language: 'e' })).toEqual([]);
+    expect(ids({ bundler: 'vite', project: 'admin' })).toEqual(['c_phone', 'c_desktop']);
+    expect(ids({ bundler: 'webpack' })).toEqual([]);
+  });
+
+  it('ignores fields a tab may not report about itself', () => {
+    const m = new ClientManager();
+    m.setProject({ name: 'admin', root: '/repo/apps/admin', bundler: 'vite' });
+    m.addClient('c_spoof', {} as any, stubRpc);
+    m.updateClientInfo('c_spoof', { title: 'App', clientId: 'c_other', project: 'shop', active: false } as any);
+    expect(m.getClient('c_spoof')?.info).toMatchObject({ clientId: 'c_spoof', title: 'App', project: 'admin', active: true });
+  });
+
+  it('keeps a question thread on in-progress tasks', async () => {
+    const m = new ClientManager();
+    expect(m.askTaskQuestion('task_q_1', 'Which color?')).toMatchObject({ ok: false });
+    m.addTask({ id: 'task_q_1', sourceClient: 'c_test', element: minimalElement, timestamp: Date.now() });
+    m.claimTask('task_q_1');
+
+    const asked = m.askTaskQuestion('task_q_1', 'Which color?');
+    expect(asked).toEqual({ ok: true, questionId: 'cmt_1' });
+    expect(await m.waitForTaskAnswer('task_q_1', 'cmt_1', 10)).toBeUndefined();
+    const aborted = new AbortController();
+    const cancelled = m.waitForTaskAnswer('task_q_1', 'cmt_1', 60_000, aborted.signal);
+    aborted.abort();
+    expect(await cancelled).toBeUndefined();
+
+    const waiting = m.waitForTaskAnswer('task_q_1', 'cmt_1', 1000);
+    expect(m.answerTaskQuestion('task_q_1', 'cmt_1', '  ')).toMatchObject({ ok: false });
+    expect(m.answerTaskQuestion('task_q_1', 'cmt_1', 'Blue')).toEqual({ ok: true });
+    expect(await waiting).toMatchObject({ author: 'human', text: 'Blue', inReplyTo: 'cmt_1' });
+    expect(m.answerTaskQuestion('task_q_1', 'cmt_1', 'Red')).toMatchObject({ ok: false, error: 'Question already answered' });
+    expect(m.getTask('task_q_1')?.comments?.map(c => c.author)).toEqual(['agent', 'human']);
+  });
+
+  it('validates and records task status changes', () => {
+    const m = new ClientManager();
+    m.addTask({ id: 'task_t_1', sourceClient: 'c_test', element: minimalElement, timestamp: Date.now() });
+    expect(m.failTask('task_t_1', 'nope')).toMatchObject({ ok: false, error: 'Task is pending and cannot become failed' });
+    m.claimTask('task_t_1', { by: 'agent', sessionId: 's_1' });
+
+    expect(m.releaseTask('task_t_1', 'Need a designer')).toEqual({ ok: true });
+    expect(m.peekPendingTasks()).toMatchObject([{ id: 'task_t_1', reopenReason: 'Need a designer' }]);
+    m.claimTask('task_t_1');
+    expect(m.failTask('task_t_1', 'API missing')).toEqual({ ok: true });
+    expect(m.getTask('task_t_1')).toMatchObject({ status: 'failed', completedBy: 'mcp', result: { error: 'API missing' } });
+    const notInProgress = { ok: false, error: 'Only in-progress tasks can be released' };
+    expect(m.releaseTask('task_t_1', 'Try again')).toEqual(notInProgress);
+    expect(m.getTaskDashboard().finished.map(t => t.id)).toEqual(['task_t_1']);
+
+    expect(m.reopenTask('task_t_1', 'It exists now', 'c_test')).toEqual({ ok: true });
+    expect(m.getTask('task_t_1')).toMatchObject({ status: 'pending' });
+    expect(m.getTask('task_t_1')?.completedAt).toBeUndefined();
+    expect(m.cancelTask('task_t_1', 'c_test')).toEqual({ ok: true });
+    expect(m.peekPendingTasks()).toEqual([]);
+    expect(m.reopenTask('task_t_1')).toMatchObject({ ok: false });
+
+    expect(m.getTask('task_t_1')?.transitions?.map(({ from, to, by }) => `${by}: ${from} -> ${to}`)).toEqual([
+      'agent: pending -> in_progress',
+      'agent: in_progress -> pending',
+      'agent: pending -> in_progress',
+      'agent: in_progress -> failed',
+      'human: failed -> pending',
+      'human: pending -> cancelled',
+    ]);
+    expect(m.getTask('task_t_1')?.transitions?.[0]).toMatchObject({ sessionId: 's_1' });
+    expect(m.getTask('task_t_1')?.transitions?.[4]).toMatchObject({ clientId: 'c_test', reason: 'It exists now' });
+  });
+
+  it('filters and sorts pending tasks by priority and labels', () => {
+    const m = new ClientManager();
+    const add = (id: string, timestamp: number, extra: object = {}): void =>
+      m.addTask({ id, sourceClient: 'c_test', element: minimalElement, timestamp, ...extra });
+    add('task_low', 1, { priority: 'low', labels: ['Copy'] });
+    add('task_plain', 2);
+    add('task_urgent', 3, { priority: 'urgent', labels: ['a11y', 'copy'] });
+    add('task_high', 4, { priority: 'high' });
+
+    const ids = (filter?: PendingTaskFilter): string[] => m.getPendingTasks(false, filter).map(t => t.id);
+    expect(ids()).toEqual(['task_urgent', 'task_high', 'task_plain', 'task_low']);
+    expect(ids({ sortBy: 'timestamp' })).toEqual(['task_low', 'task_plain', 'task_urgent', 'task_high']);
+    expect(ids({ minPriority: 'normal' })).toEqual(['task_urgent', 'task_high', 'task_plain']);
+    expect(ids({ labels: ['COPY'] })).toEqual(['task_urgent', 'task_low']);
+    expect(ids({ labels: ['copy', 'a11y'] })).toEqual(['task_urgent']);
+
+    expect(m.getPendingTasks(true, { minPriority: 'high' }).map(t => t.id)).toEqual(['task_urgent', 'task_high']);
+    expect(ids()).toEqual(['task_plain', 'task_low']);
+  });
+
+  it('locks claimed tasks to the claiming MCP session', () => {
+    const m = new ClientManager();
+    const owner = { by: 'agent', sessionId: 's_owner' } as const;
+    const other = { by: 'agent', sessionId: 's_other' } as const;
+    m.addTask({ id: 'task_l_1', sourceClient: 'c_test', element: minimalElement, timestamp: Date.now() });
+    m.claimTask('task_l_1', owner);
+    expect(m.getTask('task_l_1')?.claimedBy).toBe('s_owner');
+
+    const refused = { ok: false, error: 'Task was claimed by another MCP session' };
+    expect(m.failTask('task_l_1', 'mine now', other)).toEqual(refused);
+    expect(m.releaseTask('task_l_1', undefined, other)).toEqual(refused);
+    expect(m.askTaskQuestion('task_l_1', 'Why?', other)).toEqual(refused);
+    const token = (m.createCompletionApproval('task_l_1') as { token: string }).token;
+    expect(m.completeTaskWithApproval('task_l_1', token, undefined, other)).toEqual(refused);
+    expect(m.getTask('task_l_1')?.status).toBe('in_progress');
+
+    expect(m.releaseTask('task_l_1', undefined, owner)).toEqual({ ok: true });
+    expect(m.getTask('task_l_1')?.claimedBy).toBeUndefined();
+    m.claimTask('task_l_1', other);
+    expect(m.completeTaskWithApproval('task_l_1', token, undefined, other)).toMatchObject({ ok: true });
+  });
+
+  it('unlocks the tasks of a closed MCP session', async () => {
+    const m = new ClientManager();
+    m.addTask({ id: 'task_l_2', sourceClient: 'c_test', element: minimalElement, timestamp: Date.now() });
+    m.claimTask('task_l_2', { by: 'agent', sessionId: 's_closed' });
+    await m.dropSessionClaims('s_other');
+    expect(m.getTask('task_l_2')?.claimedBy).toBe('s_closed');
+
+    await m.dropSessionClaims('s_closed');
+    expect(m.getTask('task_l_2')?.claimedBy).toBeUndefined();
+    expect(m.getTask('task_l_2')?.status).toBe('in_progress');
+    expect(m.releaseTask('task_l_2', undefined, { by: 'agent', sessionId: 's_next' })).toEqual({ ok: true });
+  });
+
+  it('keeps task screenshots in plugin storage', async () => {
+    const m = new ClientManager();
+    const screenshot = { mimeType: 'image/jpeg', data: 'AAAA', width: 4, height: 3 };
+    await m.saveTaskScreenshot('task_s_1', screenshot);
+    m.addTask({
+      id: 'task_s_1',
+      sourceClient: 'c_test',
+      element: minimalElement,
+      timestamp: Date.now(),
+      screenshot: { mimeType: 'image/jpeg', width: 4, height: 3 },
+    });
+    m.addTask({ id: 'task_s_2', sourceClient: 'c_test', element: minimalElement, timestamp: Date.now() });
+
+    await expect(m.runTaskAction('getTaskScreenshot', 'task_s_1')).resolves.toEqual(screenshot);
+    await expect(m.getTaskScreenshot('task_s_2')).resolves.toBeNull();
+    await expect(getPluginStorage(TASK_SCREENSHOT_NAMESPACE).getItem('task_s_1')).resolves.toEqual(screenshot);
+  });
+
+  it('keeps task screenshots next to persisted tasks', async () => {
+    const storage = createStorage();
+    const before = new ClientManager();
+    await before.attachTaskStorage(storage);
+    const screenshot = { mimeType: 'image/jpeg', data: 'BBBB', width: 4, height: 3 };
+    await before.saveTaskScreenshot('task_s_3', screenshot);
+    before.addTask({
+      id: 'task_s_3',
+      sourceClient: 'c_test',
+      element: minimalElement,
+      timestamp: Date.now(),
+      screenshot: { mimeType: 'image/jpeg', width: 4, height: 3 },
+    });
+    await before.flushTaskStorage();
+
+    const after = new ClientManager();
+    await after.attachTaskStorage(storage);
+    await expect(after.getTaskScreenshot('task_s_3')).resolves.toEqual(screenshot);
+  });
 });
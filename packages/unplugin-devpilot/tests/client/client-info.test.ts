@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { detectFramework } from '../../src/client/client-info';
+
+function createDocument(elements: Record<string, object> = {}, children: object[] = []): any {
+  return {
+    querySelector: (selector: string) => elements[selector] ?? null,
+    querySelectorAll: () => children,
+  };
+}
+
+describe('detectFramework', () => {
+  it('prefers meta-frameworks over the framework they render with', () => {
+    expect(detectFramework({ next: { version: '15.1.0' }, __REACT_DEVTOOLS_GLOBAL_HOOK__: {} }, createDocument()))
+      .toEqual({ name: 'next', version: '15.1.0' });
+    const nuxtRoot = { __vue_app__: { version: '3.5.0', $nuxt: { versions: { nuxt: '3.15.0' } } } };
+    expect(detectFramework({ __VUE__: true }, createDocument({ '#__nuxt': nuxtRoot })))
+      .toEqual({ name: 'nuxt', version: '3.15.0' });
+  });
+
+  it('reads versions where frameworks expose them', () => {
+    const renderers = new Map([[1, { version: '19.0.0' }]]);
+    expect(detectFramework({ __REACT_DEVTOOLS_GLOBAL_HOOK__: { renderers } }, createDocument()))
+      .toEqual({ name: 'react', version: '19.0.0' });
+    expect(detectFramework({}, createDocument({ '[data-v-app]': { __vue_app__: { version: '3.5.0' } } })))
+      .toEqual({ name: 'vue', version: '3.5.0' });
+    const angularRoot = { getAttribute: () => '19.0.0' };
+    expect(detectFramework({}, createDocument({ '[ng-version]': angularRoot })))
+      .toEqual({ name: 'angular', version: '19.0.0' });
+    expect(detectFramework({ __svelte: { v: new Set(['5']) } }, createDocument()))
+      .toEqual({ name: 'svelte', version: '5' });
+  });
+
+  it('recognizes a React root without devtools', () => {
+    expect(detectFramework({}, createDocument({}, [{ __reactContainer$abc: {} }])))
+      .toEqual({ name: 'react' });
+    expect(detectFramework({}, createDocument())).toBeUndefined();
+  });
+});
@@ -1,9 +1,13 @@
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
+  containsRect,
+  getBoundingRect,
+  getRectFromPoints,
   nextTaskElementUid,
   parseDataInspPath,
   resetTaskElementUidCounter,
   shouldIgnorePickTarget,
+  toTaskRegion,
 } from '../../src/client/task-ui/task-element-info';
 
 describe('parseDataInspPath', () => {
@@ -50,3 +54,25 @@ describe('shouldIgnorePickTarget', () => {
     expect(shouldIgnorePickTarget(null)).toBe(true);
   });
 });
+
+describe('region geometry', () => {
+  it('spans a drag in any direction', () => {
+    expect(getRectFromPoints(50, 40, 10, 100)).toEqual({ top: 40, left: 10, width: 40, height: 60 });
+  });
+
+  it('encloses several elements', () => {
+    const cards = [
+      { top: 10, left: 10, width: 100, height: 50 },
+      { top: 10, left: 130, width: 100, height: 80 },
+    ];
+    expect(getBoundingRect(cards)).toEqual({ top: 10, left: 10, width: 220, height: 80 });
+    expect(getBoundingRect([])).toBeNull();
+    expect(containsRect(getBoundingRect(cards)!, cards[1])).toBe(true);
+    expect(containsRect(cards[0], cards[1])).toBe(false);
+  });
+
+  it('records regions in document coordinates', () => {
+    expect(toTaskRegion({ top: 10.4, left: 5, width: 20, height: 30.6 }, 0, 300))
+      .toEqual({ x: 5, y: 310, width: 20, height: 31 });
+  });
+});
@@ -0,0 +1,32 @@
+import type { TaskElementInfo } from '../../src/core/types';
+import { describe, expect, it } from 'vitest';
+import { registerTaskPayloadHook, runTaskPayloadHooks } from '../../src/client';
+
+const info = (selector: string): TaskElementInfo => ({ uid: selector, selector, role: 'region', name: '' });
+
+describe('runTaskPayloadHooks', () => {
+  it('runs the hooks once per picked element', async () => {
+    const unregister = registerTaskPayloadHook((payload, { element, index }) => ({
+      ...payload,
+      element: { ...payload.element, devpilotId: `${(element as unknown as { id: string }).id}_${index}` },
+    }));
+    const elements = [{ id: 'a' }, { id: 'b' }] as unknown as Element[];
+    const region = { x: 0, y: 0, width: 10, height: 10 };
+
+    const payload = await runTaskPayloadHooks(
+      { element: info('.a'), elements: [info('.a'), info('.b')], region },
+      { elements, screenshot: false, client: {} as any },
+    );
+    expect(payload.elements?.map(e => e.devpilotId)).toEqual(['a_0', 'b_1']);
+    expect(payload.element.devpilotId).toBe('a_0');
+    expect(payload.region).toBe(region);
+
+    const single = await runTaskPayloadHooks({ element: info('.a') }, { elements: elements.slice(0, 1), screenshot: false, client: {} as any });
+    expect(single).toEqual({ element: { ...info('.a'), devpilotId: 'a_0' } });
+
+    // Callers from before multi-element picks pass the one element as `element`
+    const legacy = await runTaskPayloadHooks({ element: info('.b') }, { element: elements[1], client: {} as any });
+    expect(legacy).toEqual({ element: { ...info('.b'), devpilotId: 'b_0' } });
+    unregister();
+  });
+});
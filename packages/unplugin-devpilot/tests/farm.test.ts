@@ -0,0 +1,68 @@
+import type { IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { createServer } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { getAuthToken } from '../src/core/auth';
+import { WS_AUTH_PROTOCOL_PREFIX, WS_PROTOCOL, WS_PROXY_PATH } from '../src/core/constants';
+import { getFarmHttpServer } from '../src/core/farm';
+import { attachWebSocketServer, reserveUpgradePath, stopWebSocketServer } from '../src/core/ws-server';
+
+describe('farm dev server', () => {
+  it('finds the http server of Farm 1 and Farm 2', () => {
+    const httpServer = createServer();
+    expect(getFarmHttpServer({ server: httpServer })).toBe(httpServer);
+    expect(getFarmHttpServer({ httpServer })).toBe(httpServer);
+    expect(getFarmHttpServer({})).toBeUndefined();
+  });
+
+  describe('websocket wiring', () => {
+    const httpServer = createServer();
+    /** Paths seen by the listener standing in for Farm's HMR server */
+    const hmrUpgrades: string[] = [];
+    let port: number;
+
+    beforeAll(async () => {
+      httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+        hmrUpgrades.push(req.url!);
+        socket.destroy();
+      });
+      await new Promise<void>(resolve => httpServer.listen(0, 'localhost', resolve));
+      port = (httpServer.address() as AddressInfo).port;
+
+      const farmServer = getFarmHttpServer({ server: httpServer })!;
+      reserveUpgradePath(farmServer);
+      attachWebSocketServer(farmServer);
+    });
+
+    afterAll(async () => {
+      await stopWebSocketServer();
+      await new Promise(resolve => httpServer.close(resolve));
+    });
+
+    function connect(path: string): Promise<string> {
+      return new Promise((resolve, reject) => {
+        const ws = new WebSocket(
+          `ws://localhost:${port}${path}`,
+          [WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`],
+        );
+        ws.once('message', (data) => {
+          ws.close();
+          resolve(JSON.parse(String(data)).clientId);
+        });
+        ws.once('error', reject);
+      });
+    }
+
+    it('serves the proxy path without reaching Farm listeners', async () => {
+      await expect(connect(WS_PROXY_PATH)).resolves.toMatch(/^c_/);
+      expect(hmrUpgrades).not.toContain(WS_PROXY_PATH);
+    });
+
+    it('still hands other upgrades to Farm', async () => {
+      await expect(connect('/__hmr')).rejects.toThrow();
+      expect(hmrUpgrades).toContain('/__hmr');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import type { Socket } from 'node:net';
+import { chmod, mkdtemp, rm } from 'node:fs/promises';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import process from 'node:process';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ClientManager } from '../src/core/client-manager';
+import { getHubSocketPath, getProjectIdScope, getProjectInfo, isPrivateDirectory, joinHub, startHub, stopHub } from '../src/core/hub';
+import { getPluginRpcMethod } from '../src/core/plugin-rpc';
+import { isRpcError, RpcError } from '../src/core/rpc-error';
+
+const minimalElement = {
+  uid: 'dp_x_1',
+  selector: 'button.foo',
+  role: 'button',
+  name: 'Go',
+};
+
+describe('mcp hub', () => {
+  const mcpPort = 40000 + Math.floor(Math.random() * 20000);
+  const hub = new ClientManager();
+  const member = new ClientManager();
+  const onLost = vi.fn();
+  const call = vi.fn(async (method: string, ...args: unknown[]) => ({ method, args }));
+
+  beforeAll(async () => {
+    const project = { name: 'admin', root: '/repo/apps/admin' };
+    member.setProject(project);
+    member.setIdScope(getProjectIdScope(project));
+    member.addClient(member.generateClientId(), {} as any, {
+      $call: call,
+      notifyTaskUpdate: async () => {},
+      notifyTaskCompleted: async () => {},
+    } as any);
+
+    await startHub(mcpPort, hub);
+    await expect(joinHub(mcpPort, project, onLost, 1, member)).resolves.toBe(true);
+  });
+
+  afterAll(async () => {
+    await stopHub();
+  });
+
+  it('finds the project of a directory', () => {
+    expect(getProjectInfo(process.cwd())).toEqual({ name: 'unplugin-devpilot', root: process.cwd() });
+  });
+
+  it('scopes member ids to the project', () => {
+    const [client] = member.getAllClients();
+    expect(client.clientId).toMatch(new RegExp(`^c_${getProjectIdScope({ name: 'admin', root: '/repo/apps/admin' })}_`));
+    expect(member.resolveClientId('c_1')).not.toBe('c_1');
+  });
+
+  it('lists the clients of registered dev servers with their project', async () => {
+    await vi.waitFor(() => expect(hub.getAllClients()).toHaveLength(1));
+    expect(hub.getAllClients()[0]).toMatchObject({ project: 'admin', root: '/repo/apps/admin' });
+  });
+
+  it('forwards calls to the dev server of the tab', async () => {
+    const [{ clientId }] = hub.getAllClients();
+    const client = await hub.waitForClient(clientId);
+    await expect(client!.plugin<{ ping: (n: number) => unknown }>('ns').ping(1))
+      .resolves
+      .toEqual({ method: getPluginRpcMethod('ns', 'ping'), args: [1] });
+
+    call.mockRejectedValueOnce(new RpcError('timeout', 'too slow', 'ns:ping'));
+    const error = await client!.plugin<{ ping: () => unknown }>('ns').ping().catch(e => e);
+    expect(isRpcError(error, 'timeout')).toBe(true);
+  });
+
+  it('spans task queues and routes task actions to their owner', async () => {
+    const [{ clientId }] = member.getAllClients();
+    const id = member.generateTaskId();
+    member.addTask({ id, sourceClient: clientId, element: minimalElement, timestamp: Date.now() });
+
+    await vi.waitFor(() => expect(hub.getPendingTasks(false).map(t => t.id)).toEqual([id]));
+    await expect(hub.runTaskAction('claimTask', id)).resolves.toMatchObject({ ok: true });
+    expect(member.getTask(id)?.status).toBe('in_progress');
+    await vi.waitFor(() => expect(hub.getTask(id)?.status).toBe('in_progress'));
+  });
+
+  it('only trusts hub directories private to the current user', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'devpilot-hub-'));
+    try {
+      await expect(isPrivateDirectory(dir)).resolves.toBe(true);
+      await chmod(dir, 0o755);
+      await expect(isPrivateDirectory(dir)).resolves.toBe(false);
+      await expect(isPrivateDirectory(join(dir, 'missing'))).resolves.toBe(false);
+    }
+    finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('does not join when no hub listens', async () => {
+    await expect(joinHub(mcpPort + 1, getProjectInfo(), vi.fn(), 1, new ClientManager())).resolves.toBe(false);
+  });
+
+  it('gives up on a hub that never answers the registration', async () => {
+    // Accepts the connection like a hung hub process, then reads the registration and stays silent
+    const sockets: Socket[] = [];
+    const closed = vi.fn();
+    const hungHub = createServer((socket) => {
+      sockets.push(socket);
+      socket.on('close', closed).resume();
+    });
+    await new Promise<void>(resolve => hungHub.listen(getHubSocketPath(mcpPort + 2), resolve));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const lost = vi.fn();
+    try {
+      await expect(joinHub(mcpPort + 2, getProjectInfo(), lost, 1, new ClientManager(), 50)).resolves.toBe(false);
+      await vi.waitFor(() => expect(closed).toHaveBeenCalled());
+      expect(lost).not.toHaveBeenCalled();
+    }
+    finally {
+      warn.mockRestore();
+      sockets.forEach(socket => socket.destroy());
+      await new Promise(resolve => hungHub.close(resolve));
+    }
+  });
+});
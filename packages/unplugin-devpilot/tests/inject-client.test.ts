@@ -0,0 +1,83 @@
+import type { UnpluginContextMeta } from 'unplugin';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { unpluginDevpilot } from '../src';
+
+describe('injectClient', () => {
+  beforeEach(() => {
+    // Look like a dev server rather than a test run
+    vi.stubEnv('VITEST', '');
+    vi.stubEnv('TEST', '');
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('JEST_WORKER_ID', '');
+    vi.stubEnv('npm_lifecycle_event', 'dev');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  function getVitePlugin(injectClient?: boolean) {
+    return unpluginDevpilot.raw({ injectClient }, { framework: 'vite' }) as any;
+  }
+
+  function createWebpackCompiler(mode?: string) {
+    const apply = vi.fn();
+    const EntryPlugin = vi.fn(function (this: { apply: typeof apply }) {
+      this.apply = apply;
+    });
+    return { compiler: { context: '/app', options: { mode }, webpack: { EntryPlugin } }, EntryPlugin, apply };
+  }
+
+  it('adds the client to index.html in vite dev', () => {
+    const plugin = getVitePlugin(true);
+    plugin.vite.config({}, { command: 'serve' });
+    expect(plugin.vite.transformIndexHtml.handler()).toEqual([
+      expect.objectContaining({ tag: 'script', children: 'import \'virtual:devpilot-client\';' }),
+    ]);
+  });
+
+  it('leaves index.html alone when disabled or building', () => {
+    const disabled = getVitePlugin();
+    disabled.vite.config({}, { command: 'serve' });
+    expect(disabled.vite.transformIndexHtml.handler()).toBeUndefined();
+
+    const build = getVitePlugin(true);
+    build.vite.config({}, { command: 'build' });
+    expect(build.vite.transformIndexHtml.handler()).toBeUndefined();
+  });
+
+  it('adds a global webpack entry outside production mode', () => {
+    const plugin = unpluginDevpilot.raw({ injectClient: true }, { framework: 'webpack' } as UnpluginContextMeta) as any;
+    const dev = createWebpackCompiler('development');
+    plugin.webpack({ ...dev.compiler, hooks: createHooks() });
+    expect(dev.EntryPlugin).toHaveBeenCalledWith('/app', 'virtual:devpilot-client', { name: undefined });
+    expect(dev.apply).toHaveBeenCalled();
+
+    const production = createWebpackCompiler('production');
+    plugin.webpack({ ...production.compiler, hooks: createHooks() });
+    expect(production.EntryPlugin).not.toHaveBeenCalled();
+
+    // Webpack defaults an unset mode to production
+    const unset = createWebpackCompiler();
+    plugin.webpack({ ...unset.compiler, hooks: createHooks() });
+    expect(unset.EntryPlugin).not.toHaveBeenCalled();
+  });
+
+  it('warns once about a manual import next to the injected one', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const plugin = getVitePlugin(true);
+    expect(plugin.resolveId('virtual:devpilot-client', '/app/index.html?html-proxy&index=0.js')).toBeDefined();
+    expect(warn).not.toHaveBeenCalled();
+
+    plugin.resolveId('virtual:devpilot-client', '/app/src/main.ts');
+    plugin.resolveId('virtual:devpilot-client', '/app/src/other.ts');
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0][0]).toContain('/app/src/main.ts');
+  });
+});
+
+function createHooks() {
+  const hook = { tap: vi.fn(), tapPromise: vi.fn() };
+  return { beforeRun: hook, watchRun: hook, shutdown: hook };
+}
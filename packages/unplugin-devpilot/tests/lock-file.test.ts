@@ -0,0 +1,38 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import process from 'node:process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findLockFile, getLockFilePath } from '../src/core/lock-file';
+
+describe('lock-file', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'devpilot-lock-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function writeLock(dir: string, pid: number): void {
+    const lockPath = getLockFilePath(dir);
+    mkdirSync(join(lockPath, '..'), { recursive: true });
+    writeFileSync(lockPath, JSON.stringify({ pid, mcpPort: 3101, wsPort: 60427, cwd: dir, startedAt: 0 }));
+  }
+
+  it('finds the lock file of a parent project', async () => {
+    writeLock(root, process.pid);
+    const nested = join(root, 'src', 'components');
+    mkdirSync(nested, { recursive: true });
+
+    const lock = await findLockFile(nested);
+    expect(lock).toMatchObject({ mcpPort: 3101, wsPort: 60427 });
+  });
+
+  it('ignores lock files left behind by dead processes', async () => {
+    writeLock(root, 2 ** 22 + 12345);
+    expect(await findLockFile(root)).toBeNull();
+  });
+});
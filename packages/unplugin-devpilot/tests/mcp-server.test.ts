@@ -0,0 +1,500 @@
+import type { IncomingMessage } from 'node:http';
+import type { DevpilotPlugin } from '../src/core/options';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { request } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceUpdatedNotificationSchema, ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { getRandomPort } from 'get-port-please';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { clearAuditLog, getAuditLog } from '../src/core/audit-log';
+import { getAuthToken } from '../src/core/auth';
+import { clientManager } from '../src/core/client-manager';
+import {
+  closeIdleMcpSessions,
+  getMcpSessionIds,
+  getMcpToolRegistry,
+  notifyMcpResourceUpdated,
+  registerPluginMcpRegisterMethods,
+  startMcpServer,
+  stopMcpServer,
+} from '../src/core/mcp-server';
+import { defineMcpResourceRegister, defineMcpToolRegister, jsonResourceContents } from '../src/core/plugin/mcp';
+import { configureToolPolicy } from '../src/core/tool-policy';
+
+const authHeaders = { Authorization: `Bearer ${getAuthToken()}` };
+
+describe('mcp-server sessions', () => {
+  let url: URL;
+
+  beforeAll(async () => {
+    const port = await getRandomPort();
+    await startMcpServer(port);
+    url = new URL(`http://localhost:${port}/mcp`);
+  });
+
+  afterAll(async () => {
+    await stopMcpServer();
+  });
+
+  async function connect(): Promise<{ client: Client, transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: authHeaders } });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  it('keeps one session per client across requests', async () => {
+    const { client, transport } = await connect();
+    expect(transport.sessionId).toBeTruthy();
+    expect(getMcpSessionIds()).toContain(transport.sessionId);
+
+    const first = await client.listTools();
+    const second = await client.listTools();
+    expect(first.tools.map(t => t.name)).toContain('list_clients');
+    expect(second.tools).toHaveLength(first.tools.length);
+    expect(getMcpSessionIds()).toContain(transport.sessionId);
+
+    await transport.terminateSession();
+    expect(getMcpSessionIds()).not.toContain(transport.sessionId);
+    await client.close();
+  });
+
+  it('rejects requests without a session that are not initialize', async () => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { ...authHeaders, 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('answers unknown sessions with 404', async () => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        'mcp-session-id': 'missing',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('requires the bearer token', async () => {
+    const init = (headers: Record<string, string>): RequestInit => ({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect((await fetch(url, init({}))).status).toBe(401);
+    expect((await fetch(url, init({ Authorization: 'Bearer wrong' }))).status).toBe(401);
+  });
+
+  it('rejects foreign origins', async () => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { ...authHeaders, 'Origin': 'https://evil.example', 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    expect(res.status).toBe(403);
+  });
+
+  /** A session that never opens the GET stream the SDK client opens in the background */
+  async function initializeSession(): Promise<string> {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { ...authHeaders, 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '0.0.0' } },
+      }),
+    });
+    await res.text();
+    return res.headers.get('mcp-session-id')!;
+  }
+
+  it('expires idle sessions and unlocks their tasks', async () => {
+    const sessionId = await initializeSession();
+    clientManager.addTask({
+      id: 'task_idle_1',
+      sourceClient: 'c_1',
+      element: { uid: 'e1', selector: '#a', role: 'button', name: 'A' },
+      timestamp: Date.now(),
+    });
+    clientManager.claimTask('task_idle_1', { by: 'agent', sessionId });
+    await closeIdleMcpSessions(0);
+    expect(getMcpSessionIds()).not.toContain(sessionId);
+    expect(clientManager.getTask('task_idle_1')?.claimedBy).toBeUndefined();
+  });
+
+  it('keeps sessions listening on an SSE stream', async () => {
+    const sessionId = await initializeSession();
+    const stream = request(url, {
+      headers: { ...authHeaders, 'Accept': 'text/event-stream', 'mcp-session-id': sessionId },
+      agent: false,
+    });
+    const res = await new Promise<IncomingMessage>(resolve => stream.once('response', resolve).end());
+    expect(res.statusCode).toBe(200);
+    await closeIdleMcpSessions(0);
+    expect(getMcpSessionIds()).toContain(sessionId);
+
+    stream.destroy();
+    await vi.waitFor(async () => {
+      await closeIdleMcpSessions(0);
+      expect(getMcpSessionIds()).not.toContain(sessionId);
+    });
+  });
+});
+
+describe('mcp-server tool registry', () => {
+  let url: URL;
+
+  beforeAll(async () => {
+    const port = await getRandomPort();
+    await startMcpServer(port);
+    url = new URL(`http://localhost:${port}/mcp`);
+  });
+
+  afterAll(async () => {
+    registerPluginMcpRegisterMethods([]);
+    await stopMcpServer();
+  });
+
+  function pluginWithTools(...names: string[]): DevpilotPlugin {
+    return {
+      namespace: 'test-plugin',
+      mcpSetup: () => names.map(name => defineMcpToolRegister(
+        name,
+        { description: `${name} tool` },
+        async () => ({ content: [{ type: 'text' as const, text: name }] }),
+      )),
+    };
+  }
+
+  it('diffs the registry on re-registration', () => {
+    registerPluginMcpRegisterMethods([pluginWithTools('a', 'b')]);
+    expect(getMcpToolRegistry().map(t => t.name)).toContain('test-plugin_a');
+
+    expect(registerPluginMcpRegisterMethods([pluginWithTools('a', 'b')]))
+      .toEqual({ added: [], removed: [], changed: [] });
+    expect(registerPluginMcpRegisterMethods([pluginWithTools('b', 'c')]))
+      .toEqual({ added: ['test-plugin_c'], removed: ['test-plugin_a'], changed: [] });
+  });
+
+  it('notifies live sessions when the tool set changes', async () => {
+    registerPluginMcpRegisterMethods([pluginWithTools('a')]);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: authHeaders } });
+    await client.connect(transport);
+
+    const changed = new Promise<void>((resolve) => {
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => resolve());
+    });
+    // Open the standalone SSE stream used for server-initiated notifications
+    await client.listTools();
+    registerPluginMcpRegisterMethods([pluginWithTools('a', 'z')]);
+    await changed;
+
+    const { tools } = await client.listTools();
+    expect(tools.map(t => t.name)).toContain('test-plugin_z');
+    await transport.terminateSession();
+    await client.close();
+  });
+});
+
+describe('mcp-server tool policy', () => {
+  let url: URL;
+
+  beforeAll(async () => {
+    const port = await getRandomPort();
+    await startMcpServer(port);
+    url = new URL(`http://localhost:${port}/mcp`);
+  });
+
+  afterAll(async () => {
+    configureToolPolicy();
+    registerPluginMcpRegisterMethods([]);
+    await stopMcpServer();
+  });
+
+  it('hides denied tools and asks the page before running confirm tools', async () => {
+    configureToolPolicy({ 'policy-plugin_*': 'confirm', 'policy-plugin_drop': 'deny' });
+    registerPluginMcpRegisterMethods([{
+      namespace: 'policy-plugin',
+      mcpSetup: () => ['drop', 'poke'].map(name => defineMcpToolRegister(
+        name,
+        { description: `${name} tool` },
+        async () => ({ content: [{ type: 'text' as const, text: `${name} ran` }] }),
+      )),
+    }]);
+    let approve = false;
+    clientManager.addClient('c_policy', {} as any, { confirmToolCall: async () => approve } as any);
+
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: authHeaders } });
+    await client.connect(transport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(t => t.name)).toContain('policy-plugin_poke');
+    expect(tools.map(t => t.name)).not.toContain('policy-plugin_drop');
+
+    const refused = await client.callTool({ name: 'policy-plugin_poke' });
+    expect(refused.isError).toBe(true);
+    approve = true;
+    const allowed = await client.callTool({ name: 'policy-plugin_poke' });
+    expect(allowed.content).toEqual([{ type: 'text', text: 'poke ran' }]);
+
+    clientManager.removeClient('c_policy');
+    await transport.terminateSession();
+    await client.close();
+  });
+});
+
+describe('mcp-server audit log', () => {
+  let url: URL;
+
+  beforeAll(async () => {
+    const port = await getRandomPort();
+    await startMcpServer(port);
+    url = new URL(`http://localhost:${port}/mcp`);
+  });
+
+  afterAll(async () => {
+    clearAuditLog();
+    registerPluginMcpRegisterMethods([]);
+    await stopMcpServer();
+  });
+
+  it('records every tool call with its outcome', async () => {
+    registerPluginMcpRegisterMethods([{
+      namespace: 'audit-plugin',
+      mcpSetup: () => [
+        defineMcpToolRegister(
+          'fail',
+          { description: 'fails', inputSchema: { clientId: z.string() } },
+          async () => ({ isError: true, content: [{ type: 'text' as const, text: 'element not found' }] }),
+        ),
+      ],
+    }]);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: authHeaders } });
+    await client.connect(transport);
+
+    await client.callTool({ name: 'list_clients', arguments: {} });
+    await client.callTool({ name: 'audit-plugin_fail', arguments: { clientId: 'c_gone' } });
+    clientManager.addTask({
+      id: 'task_audit_1',
+      sourceClient: 'c_picked',
+      element: { uid: 'e1', selector: '#a', role: 'button', name: 'A' },
+      timestamp: Date.now(),
+    });
+    await client.callTool({ name: 'claim_task', arguments: { taskId: 'task_audit_1' } });
+
+    const [claimed, failed, listed] = getAuditLog({ sessionId: transport.sessionId });
+    expect(claimed).toMatchObject({ tool: 'claim_task', clientId: 'c_picked', success: true });
+    expect(failed).toMatchObject({
+      tool: 'audit-plugin_fail',
+      clientId: 'c_gone',
+      args: { clientId: 'c_gone' },
+      success: false,
+      error: 'element not found',
+    });
+    expect(listed).toMatchObject({ tool: 'list_clients', success: true });
+
+    const { content } = await client.callTool({ name: 'get_audit_log', arguments: { success: false } });
+    const text = (content as Array<{ type: string, text: string }>)[0].text;
+    expect(JSON.parse(text).entries.map((e: { tool: string }) => e.tool)).toContain('audit-plugin_fail');
+
+    await transport.terminateSession();
+    await client.close();
+  });
+});
+
+describe('mcp-server resources', () => {
+  let url: URL;
+
+  beforeAll(async () => {
+    const port = await getRandomPort();
+    await startMcpServer(port);
+    url = new URL(`http://localhost:${port}/mcp`);
+  });
+
+  afterAll(async () => {
+    registerPluginMcpRegisterMethods([]);
+    await stopMcpServer();
+  });
+
+  async function connect(): Promise<{ client: Client, transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: authHeaders } });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  async function readJson(client: Client, uri: string): Promise<any> {
+    const { contents } = await client.readResource({ uri });
+    return JSON.parse('text' in contents[0]
+      ? contents[0].text
+      : '');
+  }
+
+  function nextUpdate(client: Client): Promise<string> {
+    return new Promise((resolve) => {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        resolve(notification.params.uri);
+      });
+    });
+  }
+
+  it('exposes clients and tasks as resources', async () => {
+    clientManager.addTask({
+      id: 'resource-task',
+      sourceClient: 'c_1',
+      element: { uid: 'e1', selector: '#a', role: 'button', name: 'A' },
+      timestamp: Date.now(),
+    });
+    const { client, transport } = await connect();
+
+    const { resources } = await client.listResources();
+    const uris = resources.map(r => r.uri);
+    expect(uris).toContain('devpilot://clients');
+    expect(uris).toContain('devpilot://tasks/pending');
+    expect(uris).toContain('devpilot://tasks/resource-task');
+
+    expect((await readJson(client, 'devpilot://tasks/pending'))[0].id).toBe('resource-task');
+    expect((await readJson(client, 'devpilot://tasks/resource-task')).status).toBe('pending');
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it('notifies subscribers when tasks change', async () => {
+    const { client, transport } = await connect();
+    await client.subscribeResource({ uri: 'devpilot://tasks/pending' });
+    const updated = nextUpdate(client);
+
+    clientManager.addTask({
+      id: 'subscribed-task',
+      sourceClient: 'c_1',
+      element: { uid: 'e2', selector: '#b', role: 'button', name: 'B' },
+      timestamp: Date.now(),
+    });
+    expect(await updated).toBe('devpilot://tasks/pending');
+
+    await client.unsubscribeResource({ uri: 'devpilot://tasks/pending' });
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it('serves plugin resource templates and forwards plugin updates', async () => {
+    registerPluginMcpRegisterMethods([{
+      namespace: 'test-plugin',
+      mcpResourceSetup: () => [
+        defineMcpResourceRegister(
+          'notes',
+          'devpilot://notes/{key}',
+          { list: () => [{ uri: 'devpilot://notes/x', name: 'note x' }] },
+          (uri, { key }) => jsonResourceContents(uri, { key }),
+        ),
+      ],
+    }]);
+    const { client, transport } = await connect();
+
+    const { resources } = await client.listResources();
+    expect(resources.map(r => r.uri)).toContain('devpilot://notes/x');
+    expect(await readJson(client, 'devpilot://notes/y')).toEqual({ key: 'y' });
+
+    await client.subscribeResource({ uri: 'devpilot://notes/y' });
+    const updated = nextUpdate(client);
+    notifyMcpResourceUpdated('devpilot://notes/x');
+    notifyMcpResourceUpdated('devpilot://notes/y');
+    expect(await updated).toBe('devpilot://notes/y');
+
+    await transport.terminateSession();
+    await client.close();
+  });
+});
+
+describe('mcp-server prompts', () => {
+  let url: URL;
+  let skillDir: string;
+
+  beforeAll(async () => {
+    const port = await getRandomPort();
+    await startMcpServer(port);
+    url = new URL(`http://localhost:${port}/mcp`);
+    skillDir = mkdtempSync(join(tmpdir(), 'devpilot-prompts-'));
+  });
+
+  afterAll(async () => {
+    registerPluginMcpRegisterMethods([]);
+    await stopMcpServer();
+    rmSync(skillDir, { recursive: true, force: true });
+  });
+
+  async function connect(): Promise<{ client: Client, transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: authHeaders } });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  function promptText(result: Awaited<ReturnType<Client['getPrompt']>>): string {
+    const { content } = result.messages[0];
+    return content.type === 'text'
+      ? content.text
+      : '';
+  }
+
+  it('serves the agent workflow and the task being triaged', async () => {
+    clientManager.addTask({
+      id: 'prompt-task',
+      sourceClient: 'c_1',
+      element: { uid: 'e1', selector: '#a', role: 'button', name: 'A' },
+      userNote: 'make it blue',
+      timestamp: Date.now(),
+    });
+    const { client, transport } = await connect();
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toContain('devpilot/triage-task');
+
+    const text = promptText(await client.getPrompt({ name: 'devpilot/triage-task', arguments: { taskId: 'prompt-task' } }));
+    expect(text).toContain('### Agent workflow');
+    expect(text).toContain('make it blue');
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it('exposes plugin skill files and folders as usage prompts', async () => {
+    writeFileSync(join(skillDir, 'single.md'), '# Single skill');
+    mkdirSync(join(skillDir, 'folder'));
+    writeFileSync(join(skillDir, 'folder', 'a.md'), '# Extra page');
+    writeFileSync(join(skillDir, 'folder', 'index.md'), '# Folder index');
+    registerPluginMcpRegisterMethods([
+      { namespace: 'single-plugin', skillModule: join(skillDir, 'single.md') },
+      { namespace: 'folder-plugin', skillModule: join(skillDir, 'folder') },
+    ]);
+    const { client, transport } = await connect();
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toEqual(expect.arrayContaining(['single-plugin/usage', 'folder-plugin/usage']));
+
+    expect(promptText(await client.getPrompt({ name: 'single-plugin/usage' }))).toBe('# Single skill');
+    const folder = promptText(await client.getPrompt({ name: 'folder-plugin/usage' }));
+    expect(folder.indexOf('# Folder index')).toBeLessThan(folder.indexOf('# Extra page'));
+    expect(promptText(await client.getPrompt({ name: 'devpilot/triage-task', arguments: {} }))).toContain('`folder-plugin/usage`');
+
+    await transport.terminateSession();
+    await client.close();
+  });
+});
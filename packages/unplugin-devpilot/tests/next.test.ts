@@ -0,0 +1,78 @@
+import type { NextWebpackContext } from '../src/next';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WS_PROXY_PATH } from '../src/core/constants';
+import { startServers } from '../src/core/servers';
+import { withDevpilot } from '../src/next';
+
+vi.mock('../src/core/servers', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/core/servers')>(),
+  startServers: vi.fn(async () => ({ host: 'localhost', wsPort: 60427 })),
+}));
+
+describe('withDevpilot', () => {
+  beforeEach(() => {
+    // Look like `next dev` rather than a test run
+    vi.stubEnv('VITEST', '');
+    vi.stubEnv('TEST', '');
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('JEST_WORKER_ID', '');
+    vi.stubEnv('npm_lifecycle_event', 'dev');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  const wsRewrite = { source: WS_PROXY_PATH, destination: `http://localhost:60427${WS_PROXY_PATH}` };
+
+  it('adds the plugin to the client compiler in dev only', () => {
+    const userWebpack = vi.fn((config: any, _context: NextWebpackContext) => config);
+    const { webpack } = withDevpilot({ webpack: userWebpack });
+
+    const client = webpack!({ plugins: [] }, { dev: true, isServer: false });
+    expect(client.plugins).toHaveLength(1);
+    expect(client.plugins[0].apply).toBeTypeOf('function');
+
+    expect(webpack!({ plugins: [] }, { dev: true, isServer: true }).plugins).toEqual([]);
+    expect(webpack!({ plugins: [] }, { dev: false, isServer: false }).plugins).toEqual([]);
+    expect(userWebpack).toHaveBeenCalledTimes(3);
+  });
+
+  it('warns that Turbopack is not supported', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('TURBOPACK', '');
+    withDevpilot({});
+    expect(warn).not.toHaveBeenCalled();
+
+    vi.stubEnv('TURBOPACK', '1');
+    withDevpilot({});
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Turbopack is not supported'));
+    warn.mockRestore();
+  });
+
+  it('rewrites the WebSocket path ahead of the app rewrites', async () => {
+    const afterFiles = [{ source: '/old', destination: '/new' }];
+    const config = withDevpilot({ rewrites: async () => afterFiles }, { mcpPort: 3102 });
+
+    await expect(config.rewrites!()).resolves.toEqual({ afterFiles, beforeFiles: [wsRewrite] });
+    expect(startServers).toHaveBeenCalledWith({ mcpPort: 3102 }, undefined, 'webpack');
+  });
+
+  it('keeps the phases of object rewrites', async () => {
+    const beforeFiles = [{ source: '/a', destination: '/b' }];
+    const fallback = [{ source: '/:path*', destination: 'https://example.com/:path*' }];
+    const config = withDevpilot({ rewrites: async () => ({ beforeFiles, fallback }) });
+
+    await expect(config.rewrites!()).resolves.toEqual({ beforeFiles: [wsRewrite, ...beforeFiles], fallback });
+  });
+
+  it('leaves rewrites alone outside dev', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const afterFiles = [{ source: '/old', destination: '/new' }];
+
+    await expect(withDevpilot({ rewrites: async () => afterFiles }).rewrites!()).resolves.toBe(afterFiles);
+    await expect(withDevpilot().rewrites!()).resolves.toEqual([]);
+    expect(startServers).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createPluginRpcProxy, getPluginRpcMethod, mergePluginRpcMethods } from '../src/core/plugin-rpc';
+
+describe('plugin-rpc', () => {
+  it('registers namespaced and bare names', () => {
+    const getLogs = () => [];
+    const merged = mergePluginRpcMethods({ 'dom-inspector': { getLogs } }, vi.fn());
+    expect(merged).toEqual({ 'getLogs': getLogs, 'dom-inspector:getLogs': getLogs });
+  });
+
+  it('keeps same-named methods of different plugins apart', () => {
+    const onConflict = vi.fn();
+    const a = () => 'a';
+    const b = () => 'b';
+    const merged = mergePluginRpcMethods({ a: { ping: a }, b: { ping: b } }, onConflict);
+    expect(merged['a:ping']).toBe(a);
+    expect(merged['b:ping']).toBe(b);
+    expect(merged.ping).toBe(b);
+    expect(onConflict).toHaveBeenCalledWith('ping', 'b');
+  });
+
+  it('proxies property calls to namespaced methods', async () => {
+    const call = vi.fn().mockResolvedValue('ok');
+    const rpc = createPluginRpcProxy<{ ping: (value: number) => string }>('a', call);
+    await expect(rpc.ping(1)).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledWith(getPluginRpcMethod('a', 'ping'), [1]);
+  });
+
+  it('is not treated as a thenable', async () => {
+    const rpc = createPluginRpcProxy('a', vi.fn());
+    await expect(Promise.resolve(rpc)).resolves.toBe(rpc);
+  });
+});
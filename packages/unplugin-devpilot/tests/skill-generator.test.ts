@@ -3,6 +3,11 @@ import { promises as fs } from 'node:fs';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { generateCoreSkill, resolveSkillModule } from '../src/core/skill-generator';
 
+vi.mock('../src/core/auth', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/core/auth')>(),
+  getAuthToken: () => 'test-token',
+}));
+
 // Mock fs module
 vi.mock('node:fs', () => ({
   promises: {
@@ -61,6 +66,12 @@ describe('skill-generator', () => {
       mockOptions = {
         wsPort: 3100,
         mcpPort: 3101,
+        host: 'localhost',
+        allowedOrigins: [],
+        toolPolicy: {},
+        rpcTimeout: 30000,
+        injectClient: false,
+        hub: false,
         plugins: [],
         skillPaths: ['/test/skills/core.md'],
       };
@@ -74,6 +85,12 @@ describe('skill-generator', () => {
       const optionsWithoutSkillPath: OptionsResolved = {
         wsPort: 3100,
         mcpPort: 3101,
+        host: 'localhost',
+        allowedOrigins: [],
+        toolPolicy: {},
+        rpcTimeout: 30000,
+        injectClient: false,
+        hub: false,
         plugins: [],
         skillPaths: undefined,
       };
@@ -89,6 +106,12 @@ describe('skill-generator', () => {
       const optionsWithDirectory: OptionsResolved = {
         wsPort: 3100,
         mcpPort: 3101,
+        host: 'localhost',
+        allowedOrigins: [],
+        toolPolicy: {},
+        rpcTimeout: 30000,
+        injectClient: false,
+        hub: false,
         plugins: [],
         skillPaths: ['/test/skills/devpilot'],
       };
@@ -111,6 +134,12 @@ describe('skill-generator', () => {
       const optionsWithDirectory: OptionsResolved = {
         wsPort: 3100,
         mcpPort: 3101,
+        host: 'localhost',
+        allowedOrigins: [],
+        toolPolicy: {},
+        rpcTimeout: 30000,
+        injectClient: false,
+        hub: false,
         plugins: [mockPlugin as any],
         skillPaths: ['/test/skills/devpilot'],
       };
@@ -146,7 +175,11 @@ describe('skill-generator', () => {
           "get_pending_tasks",
           "claim_task",
           "complete_task",
-          "get_task_history"
+          "fail_task",
+          "release_task",
+          "ask_task_question",
+          "get_task_history",
+          "get_audit_log"
         ]
         ---
 
@@ -170,21 +203,27 @@ describe('skill-generator', () => {
 
         ### Agent workflow
 
-        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids (or read ids in the panel).
-        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue).
-        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`.
-        4. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
-        5. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids, most urgent first (or read ids in the panel). Filter with \`minPriority\` or \`labels\` to pick matching work.
+        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue). Only your MCP session can then complete, fail, release or ask about it.
+        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`. Tasks about several elements (shift-click or a dragged region) list all of them in \`elements\`, with their \`region\` on the page. When a task has a \`screenshot\`, pass \`includeScreenshots: true\` to **get_pending_tasks** (or \`includeScreenshot: true\` to **claim_task**) to see it with the picked elements outlined.
+        4. If the note is ambiguous, **ask_task_question** with the \`taskId\` and your question; the developer answers in the panel. Pass \`waitForAnswer: true\` to wait for the reply, or read it later from \`comments\` in **get_task_history**.
+        5. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
+        6. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
 
-        Use **list_clients** when multiple tabs are open.
+        If you cannot finish a task, call **fail_task** with a \`reason\`, or **release_task** to put it back in the queue for another attempt. Never leave a task in progress. The developer can reopen a completed or failed task from the panel; it returns to the pending queue with a \`reopenReason\`.
+
+        Use **list_clients** when multiple tabs are open, and **get_audit_log** to review earlier tool calls and their outcomes.
 
         ## Configuration
 
         - **Plugins**: 1
         - **WebSocket Port**: 3100
         - **MCP Port**: 3101
+        - **MCP Endpoint**: \`http://localhost:3101/mcp\` with header \`Authorization: Bearer <token>\`. The token changes on every dev-server start; read it from the \`token\` field of \`node_modules/.devpilot/server.lock\`, or connect through the \`devpilot-mcp\` stdio bridge, which does that for you
         "
       `);
+      // Skill files are world-readable, so the token lives only in the private lock file
+      expect(writeFileCalls[1][1]).not.toContain('test-token');
     });
 
     it('should not generate skill file in production mode', async () => {
@@ -235,7 +274,11 @@ describe('skill-generator', () => {
           "get_pending_tasks",
           "claim_task",
           "complete_task",
-          "get_task_history"
+          "fail_task",
+          "release_task",
+          "ask_task_question",
+          "get_task_history",
+          "get_audit_log"
         ]
         ---
 
@@ -259,19 +302,23 @@ describe('skill-generator', () => {
 
         ### Agent workflow
 
-        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids (or read ids in the panel).
-        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue).
-        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`.
-        4. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
-        5. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids, most urgent first (or read ids in the panel). Filter with \`minPriority\` or \`labels\` to pick matching work.
+        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue). Only your MCP session can then complete, fail, release or ask about it.
+        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`. Tasks about several elements (shift-click or a dragged region) list all of them in \`elements\`, with their \`region\` on the page. When a task has a \`screenshot\`, pass \`includeScreenshots: true\` to **get_pending_tasks** (or \`includeScreenshot: true\` to **claim_task**) to see it with the picked elements outlined.
+        4. If the note is ambiguous, **ask_task_question** with the \`taskId\` and your question; the developer answers in the panel. Pass \`waitForAnswer: true\` to wait for the reply, or read it later from \`comments\` in **get_task_history**.
+        5. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
+        6. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+
+        If you cannot finish a task, call **fail_task** with a \`reason\`, or **release_task** to put it back in the queue for another attempt. Never leave a task in progress. The developer can reopen a completed or failed task from the panel; it returns to the pending queue with a \`reopenReason\`.
 
-        Use **list_clients** when multiple tabs are open.
+        Use **list_clients** when multiple tabs are open, and **get_audit_log** to review earlier tool calls and their outcomes.
 
         ## Configuration
 
         - **Plugins**: 1
         - **WebSocket Port**: 3100
         - **MCP Port**: 3101
+        - **MCP Endpoint**: \`http://localhost:3101/mcp\` with header \`Authorization: Bearer <token>\`. The token changes on every dev-server start; read it from the \`token\` field of \`node_modules/.devpilot/server.lock\`, or connect through the \`devpilot-mcp\` stdio bridge, which does that for you
         "
       `);
     });
@@ -298,7 +345,11 @@ describe('skill-generator', () => {
           "get_pending_tasks",
           "claim_task",
           "complete_task",
-          "get_task_history"
+          "fail_task",
+          "release_task",
+          "ask_task_question",
+          "get_task_history",
+          "get_audit_log"
         ]
         ---
 
@@ -322,19 +373,23 @@ describe('skill-generator', () => {
 
         ### Agent workflow
 
-        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids (or read ids in the panel).
-        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue).
-        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`.
-        4. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
-        5. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids, most urgent first (or read ids in the panel). Filter with \`minPriority\` or \`labels\` to pick matching work.
+        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue). Only your MCP session can then complete, fail, release or ask about it.
+        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`. Tasks about several elements (shift-click or a dragged region) list all of them in \`elements\`, with their \`region\` on the page. When a task has a \`screenshot\`, pass \`includeScreenshots: true\` to **get_pending_tasks** (or \`includeScreenshot: true\` to **claim_task**) to see it with the picked elements outlined.
+        4. If the note is ambiguous, **ask_task_question** with the \`taskId\` and your question; the developer answers in the panel. Pass \`waitForAnswer: true\` to wait for the reply, or read it later from \`comments\` in **get_task_history**.
+        5. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
+        6. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
 
-        Use **list_clients** when multiple tabs are open.
+        If you cannot finish a task, call **fail_task** with a \`reason\`, or **release_task** to put it back in the queue for another attempt. Never leave a task in progress. The developer can reopen a completed or failed task from the panel; it returns to the pending queue with a \`reopenReason\`.
+
+        Use **list_clients** when multiple tabs are open, and **get_audit_log** to review earlier tool calls and their outcomes.
 
         ## Configuration
 
         - **Plugins**: 1
         - **WebSocket Port**: 3100
         - **MCP Port**: 3101
+        - **MCP Endpoint**: \`http://localhost:3101/mcp\` with header \`Authorization: Bearer <token>\`. The token changes on every dev-server start; read it from the \`token\` field of \`node_modules/.devpilot/server.lock\`, or connect through the \`devpilot-mcp\` stdio bridge, which does that for you
         "
       `);
     });
@@ -377,7 +432,11 @@ describe('skill-generator', () => {
           "get_pending_tasks",
           "claim_task",
           "complete_task",
-          "get_task_history"
+          "fail_task",
+          "release_task",
+          "ask_task_question",
+          "get_task_history",
+          "get_audit_log"
         ]
         ---
 
@@ -402,19 +461,23 @@ describe('skill-generator', () => {
 
         ### Agent workflow
 
-        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids (or read ids in the panel).
-        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue).
-        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`.
-        4. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
-        5. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids, most urgent first (or read ids in the panel). Filter with \`minPriority\` or \`labels\` to pick matching work.
+        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue). Only your MCP session can then complete, fail, release or ask about it.
+        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`. Tasks about several elements (shift-click or a dragged region) list all of them in \`elements\`, with their \`region\` on the page. When a task has a \`screenshot\`, pass \`includeScreenshots: true\` to **get_pending_tasks** (or \`includeScreenshot: true\` to **claim_task**) to see it with the picked elements outlined.
+        4. If the note is ambiguous, **ask_task_question** with the \`taskId\` and your question; the developer answers in the panel. Pass \`waitForAnswer: true\` to wait for the reply, or read it later from \`comments\` in **get_task_history**.
+        5. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
+        6. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+
+        If you cannot finish a task, call **fail_task** with a \`reason\`, or **release_task** to put it back in the queue for another attempt. Never leave a task in progress. The developer can reopen a completed or failed task from the panel; it returns to the pending queue with a \`reopenReason\`.
 
-        Use **list_clients** when multiple tabs are open.
+        Use **list_clients** when multiple tabs are open, and **get_audit_log** to review earlier tool calls and their outcomes.
 
         ## Configuration
 
         - **Plugins**: 2
         - **WebSocket Port**: 3100
         - **MCP Port**: 3101
+        - **MCP Endpoint**: \`http://localhost:3101/mcp\` with header \`Authorization: Bearer <token>\`. The token changes on every dev-server start; read it from the \`token\` field of \`node_modules/.devpilot/server.lock\`, or connect through the \`devpilot-mcp\` stdio bridge, which does that for you
         "
       `);
     });
@@ -436,7 +499,11 @@ describe('skill-generator', () => {
           "get_pending_tasks",
           "claim_task",
           "complete_task",
-          "get_task_history"
+          "fail_task",
+          "release_task",
+          "ask_task_question",
+          "get_task_history",
+          "get_audit_log"
         ]
         ---
 
@@ -460,19 +527,23 @@ describe('skill-generator', () => {
 
         ### Agent workflow
 
-        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids (or read ids in the panel).
-        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue).
-        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`.
-        4. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
-        5. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+        1. **get_pending_tasks** with \`clearAfterFetch: false\` to list ids, most urgent first (or read ids in the panel). Filter with \`minPriority\` or \`labels\` to pick matching work.
+        2. **claim_task** with a \`taskId\` to start work (removes it from the pending queue). Only your MCP session can then complete, fail, release or ask about it.
+        3. The task payload includes \`element.devpilotId\` (when dom-inspector is active) — use this id directly with DOM tools like \`click_element\` or \`get_element_details\`. Tasks about several elements (shift-click or a dragged region) list all of them in \`elements\`, with their \`region\` on the page. When a task has a \`screenshot\`, pass \`includeScreenshots: true\` to **get_pending_tasks** (or \`includeScreenshot: true\` to **claim_task**) to see it with the picked elements outlined.
+        4. If the note is ambiguous, **ask_task_question** with the \`taskId\` and your question; the developer answers in the panel. Pass \`waitForAnswer: true\` to wait for the reply, or read it later from \`comments\` in **get_task_history**.
+        5. After the human confirms the work is done, they click **Get approval token** in the panel for that in-progress task and paste the token into chat.
+        6. Only then call **complete_task** with \`taskId\`, \`approvalToken\`, and optional \`summary\`. **Never** call \`complete_task\` without a real token from the developer.
+
+        If you cannot finish a task, call **fail_task** with a \`reason\`, or **release_task** to put it back in the queue for another attempt. Never leave a task in progress. The developer can reopen a completed or failed task from the panel; it returns to the pending queue with a \`reopenReason\`.
 
-        Use **list_clients** when multiple tabs are open.
+        Use **list_clients** when multiple tabs are open, and **get_audit_log** to review earlier tool calls and their outcomes.
 
         ## Configuration
 
         - **Plugins**: 0
         - **WebSocket Port**: 3100
         - **MCP Port**: 3101
+        - **MCP Endpoint**: \`http://localhost:3101/mcp\` with header \`Authorization: Bearer <token>\`. The token changes on every dev-server start; read it from the \`token\` field of \`node_modules/.devpilot/server.lock\`, or connect through the \`devpilot-mcp\` stdio bridge, which does that for you
         "
       `);
     });
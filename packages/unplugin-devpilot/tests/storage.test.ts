@@ -0,0 +1,59 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import memoryDriver from 'unstorage/drivers/memory';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  configureStorage,
+  createTaskStorage,
+  disposeStorage,
+  getPluginStorage,
+  resolveStorageDriver,
+} from '../src/core/storage';
+
+describe('storage', () => {
+  afterEach(async () => {
+    await disposeStorage();
+    await configureStorage('memory');
+  });
+
+  it('resolves presets to drivers', async () => {
+    expect((await resolveStorageDriver()).name).toBe('memory');
+    expect((await resolveStorageDriver('fs-lite')).name).toBe('fs-lite');
+    expect((await resolveStorageDriver({ driver: 'fs', base: '.devpilot' })).name).toBe('fs');
+    await expect(resolveStorageDriver('redis' as any)).rejects.toThrow('Unknown storage preset');
+  });
+
+  it('takes the same presets for task storage', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'devpilot-tasks-'));
+    try {
+      const tasks = await createTaskStorage({ driver: 'fs-lite', base: dir });
+      await tasks.setItem('tasks.json', { taskQueue: [] });
+      expect(JSON.parse(readFileSync(join(dir, 'tasks.json'), 'utf-8'))).toEqual({ taskQueue: [] });
+      const memory = await createTaskStorage('memory');
+      expect(memory.getMount('').driver.name).toBe('memory');
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('passes custom drivers through', async () => {
+    const driver = memoryDriver();
+    expect(await resolveStorageDriver(driver)).toBe(driver);
+  });
+
+  it('plugin storage follows the configured driver with an absolute base', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'devpilot-storage-'));
+    try {
+      await configureStorage({ driver: 'fs-lite', base: dir });
+      const pluginStorage = getPluginStorage('my-plugin');
+      void pluginStorage.setItem('logs', [{ message: 'hi' }]);
+      await disposeStorage();
+      expect(JSON.parse(readFileSync(join(dir, 'my-plugin', 'logs'), 'utf-8'))).toEqual([{ message: 'hi' }]);
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
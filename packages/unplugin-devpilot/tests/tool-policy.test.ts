@@ -0,0 +1,65 @@
+import type { ToolConfirmationRequest } from '../src/core/types';
+import { afterEach, describe, expect, it } from 'vitest';
+import { clientManager } from '../src/core/client-manager';
+import { configureToolPolicy, enforceToolPolicy, resolveToolPolicyAction } from '../src/core/tool-policy';
+
+type ConfirmAnswer = (request: ToolConfirmationRequest) => boolean | Promise<boolean>;
+
+function addConfirmingClient(clientId: string, answer: ConfirmAnswer): ToolConfirmationRequest[] {
+  const requests: ToolConfirmationRequest[] = [];
+  clientManager.addClient(clientId, {} as any, {
+    confirmToolCall: (request: ToolConfirmationRequest) => {
+      requests.push(request);
+      return answer(request);
+    },
+  } as any);
+  return requests;
+}
+
+describe('tool-policy', () => {
+  afterEach(() => {
+    configureToolPolicy();
+    for (const client of clientManager.getAllClients()) {
+      clientManager.removeClient(client.clientId);
+    }
+  });
+
+  it('prefers exact names, then the longest matching glob', () => {
+    const policy = {
+      'builtin-dom-inspector_*': 'confirm',
+      'builtin-dom-inspector_get_*': 'allow',
+      'builtin-dom-inspector_click_element': 'deny',
+      'complete_?ask': 'deny',
+    } as const;
+    expect(resolveToolPolicyAction('builtin-dom-inspector_input_text', policy)).toBe('confirm');
+    expect(resolveToolPolicyAction('builtin-dom-inspector_get_layout', policy)).toBe('allow');
+    expect(resolveToolPolicyAction('builtin-dom-inspector_click_element', policy)).toBe('deny');
+    expect(resolveToolPolicyAction('complete_task', policy)).toBe('deny');
+    expect(resolveToolPolicyAction('list_clients', policy)).toBe('allow');
+  });
+
+  it('refuses denied tools and lets allowed ones through', async () => {
+    configureToolPolicy({ complete_task: 'deny' });
+    expect(await enforceToolPolicy('complete_task', {})).toMatch(/denied/);
+    expect(await enforceToolPolicy('list_clients', {})).toBeNull();
+  });
+
+  it('asks the targeted client to confirm', async () => {
+    configureToolPolicy({ 'plugin_*': 'confirm' });
+    const approving = addConfirmingClient('c_yes', () => true);
+    const refusing = addConfirmingClient('c_no', () => false);
+
+    expect(await enforceToolPolicy('plugin_click', { clientId: 'c_yes', selector: '#a' }, 'session-1')).toBeNull();
+    expect(approving[0]).toMatchObject({ tool: 'plugin_click', args: { clientId: 'c_yes', selector: '#a' }, sessionId: 'session-1' });
+    expect(await enforceToolPolicy('plugin_click', { clientId: 'c_no' })).toMatch(/did not approve/);
+    expect(refusing).toHaveLength(1);
+  });
+
+  it('refuses confirm tools when no client can answer', async () => {
+    configureToolPolicy({ 'plugin_*': 'confirm' });
+    expect(await enforceToolPolicy('plugin_click', {})).toMatch(/no client is connected/);
+
+    addConfirmingClient('c_broken', () => Promise.reject(new Error('closed')));
+    expect(await enforceToolPolicy('plugin_click', {})).toMatch(/did not approve/);
+  });
+});
@@ -0,0 +1,163 @@
+import type { AddressInfo } from 'node:net';
+import { createServer } from 'node:http';
+import { getRandomPort } from 'get-port-please';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { getAuthToken } from '../src/core/auth';
+import { clientManager } from '../src/core/client-manager';
+import {
+  WS_AUTH_PROTOCOL_PREFIX,
+  WS_CLIENT_PROTOCOL_PREFIX,
+  WS_PROTOCOL,
+  WS_PROXY_PATH,
+  WS_RELOAD_PROTOCOL,
+} from '../src/core/constants';
+import { RpcError } from '../src/core/rpc-error';
+import { attachWebSocketServer, startWebSocketServer, stopWebSocketServer } from '../src/core/ws-server';
+
+describe('ws-server rpc', () => {
+  let port: number;
+
+  beforeAll(async () => {
+    port = await getRandomPort();
+    const wss = startWebSocketServer(port, 'localhost', 100);
+    await new Promise(resolve => wss.once('listening', resolve));
+  });
+
+  afterAll(async () => {
+    await stopWebSocketServer();
+  });
+
+  /**
+   * A tab that connects but never answers RPC calls, like one paused in the debugger.
+   * Without `autoPong` it does not answer pings either, like the socket of a page that is gone.
+   */
+  function connectSilentTab(
+    extraProtocols: string[] = [],
+    autoPong = true,
+  ): Promise<{ ws: WebSocket, clientId: string }> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(`ws://localhost:${port}`, [
+        WS_PROTOCOL,
+        `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`,
+        ...extraProtocols,
+      ], { autoPong });
+      ws.once('message', (data) => {
+        const message = JSON.parse(String(data));
+        resolve({ ws, clientId: message.clientId });
+      });
+      ws.once('error', reject);
+    });
+  }
+
+  it('rejects calls the tab does not answer in time', async () => {
+    const { ws, clientId } = await connectSilentTab();
+    const call = clientManager.getClient(clientId)!.rpc.confirmToolCall({
+      id: 'r_1',
+      tool: 'x',
+      args: {},
+      expiresAt: Date.now() + 1000,
+    });
+    await expect(call).rejects.toBeInstanceOf(RpcError);
+    await expect(call).rejects.toMatchObject({ code: 'timeout', method: 'confirmToolCall' });
+    ws.close();
+  });
+
+  it('hands the id over to the reloaded page once the old socket misses a heartbeat', async () => {
+    const first = await connectSilentTab([], false);
+    const closed = new Promise(resolve => first.ws.once('close', resolve));
+    const second = await connectSilentTab([`${WS_CLIENT_PROTOCOL_PREFIX}${first.clientId}`, WS_RELOAD_PROTOCOL]);
+    expect(second.clientId).toBe(first.clientId);
+    await closed;
+    expect(clientManager.getClient(first.clientId)).toBeDefined();
+    second.ws.close();
+  });
+
+  it('keeps the id of a live tab when another offers it as reloaded', async () => {
+    // A duplicated tab copies sessionStorage, unload mark included, while the original stays open
+    const original = await connectSilentTab();
+    const duplicate = await connectSilentTab([`${WS_CLIENT_PROTOCOL_PREFIX}${original.clientId}`, WS_RELOAD_PROTOCOL]);
+    expect(duplicate.clientId).not.toBe(original.clientId);
+    expect(original.ws.readyState).toBe(WebSocket.OPEN);
+    expect(clientManager.getClient(original.clientId)?.ws).toBeDefined();
+    expect(clientManager.getClient(duplicate.clientId)).toBeDefined();
+    original.ws.close();
+    duplicate.ws.close();
+  });
+
+  it('rejects in-flight calls when the tab disconnects', async () => {
+    const { ws, clientId } = await connectSilentTab();
+    const call = clientManager.getClient(clientId)!.rpc.confirmToolCall({
+      id: 'r_2',
+      tool: 'x',
+      args: {},
+      expiresAt: Date.now() + 1000,
+    });
+    ws.close();
+    await expect(call).rejects.toMatchObject({ code: 'disconnected' });
+    expect(clientManager.getClient(clientId)).toBeUndefined();
+  });
+});
+
+describe('ws-server attached to a dev server', () => {
+  const httpServer = createServer();
+  let port: number;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => httpServer.listen(0, 'localhost', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+    attachWebSocketServer(httpServer);
+  });
+
+  afterAll(async () => {
+    await stopWebSocketServer();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  function connect(
+    path: string,
+    protocols: string[],
+    headers?: Record<string, string>,
+  ): Promise<{ ws: WebSocket, clientId: string }> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(`ws://localhost:${port}${path}`, protocols, { headers });
+      ws.once('message', (data) => {
+        resolve({ ws, clientId: JSON.parse(String(data)).clientId });
+      });
+      ws.once('error', reject);
+    });
+  }
+
+  it('accepts tabs on the proxy path of the dev server port', async () => {
+    const { ws, clientId } = await connect(WS_PROXY_PATH, [WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`]);
+    expect(clientManager.getClient(clientId)).toBeDefined();
+    ws.close();
+  });
+
+  it('accepts the proxy path with a query string', async () => {
+    const { ws } = await connect(`${WS_PROXY_PATH}?t=1`, [WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`]);
+    ws.close();
+  });
+
+  it('rejects Host headers the dev server is not bound to', async () => {
+    await expect(connect(WS_PROXY_PATH, [WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`], {
+      host: 'evil.example',
+    })).rejects.toThrow('403');
+  });
+
+  it('rejects tabs without the auth token', async () => {
+    await expect(connect(WS_PROXY_PATH, [WS_PROTOCOL])).rejects.toThrow('401');
+  });
+
+  it('leaves upgrades on other paths to the dev server', async () => {
+    let handled = false;
+    const otherListener = (_req: unknown, socket: { destroy: () => void }) => {
+      handled = true;
+      socket.destroy();
+    };
+    httpServer.on('upgrade', otherListener);
+    await expect(connect('/hmr', [WS_PROTOCOL, `${WS_AUTH_PROTOCOL_PREFIX}${getAuthToken()}`])).rejects.toThrow();
+    expect(handled).toBe(true);
+    httpServer.off('upgrade', otherListener);
+  });
+});
@@ -9,6 +9,14 @@ export default defineConfig([
     dts: true,
     inlineOnly: false,
   },
+  {
+    entry: [
+      'src/bin/devpilot-mcp.ts',
+    ],
+    outDir: 'dist/bin',
+    dts: false,
+    inlineOnly: false,
+  },
   {
     entry: [
       'src/client/index.ts',